@@ -4,6 +4,7 @@ import { createAgent } from "langchain";
 
 import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
 import { searchTool } from "@/lib/agent/tools";
+import { getPlatformAdapters } from "@/lib/platforms/registry";
 import { ChatRequest, StreamEvent, SerializedMessage } from "@/contracts/api.types";
 
 // Force dynamic since we read request body and stream response
@@ -32,11 +33,17 @@ export async function POST(req: NextRequest) {
         // 2. Define Tools
         const tools = [searchTool];
 
+        // 3. Platforms the agent can search, from the adapter registry
+        const labels = getPlatformAdapters().map(a => a.label);
+        const platformList = labels.length > 1
+            ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`
+            : labels.join("");
+
         const agent = createAgent({
             model: llm,
             tools,
             systemPrompt: `You are a helpful sourcing assistant for SupplierCanvas. 
-You help users find suppliers on Alibaba and Made-in-China. 
+You help users find suppliers on ${platformList}. 
 
 CORE BEHAVIORS:
 1. DESCRIPTIVE RESPONSES: Be elaborative and descriptive in your analysis. Don't just give short answers. Explain *why* you are searching for specific terms.
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, runDueSavedSearches } from "@/lib/search/saved-search-service";
+
+export const maxDuration = 800;
+
+/**
+ * Scheduled runner: re-executes every saved search whose interval has elapsed.
+ * Meant to be hit by a cron (e.g. hourly) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const outcomes = await runDueSavedSearches(createServiceClient());
+        const failed = outcomes.filter(o => !o.ok).length;
+        console.log(`[Saved Search Cron] Ran ${outcomes.length} saved searches, ${failed} failed`);
+
+        return NextResponse.json({ ran: outcomes.length, failed, outcomes });
+    } catch (error: unknown) {
+        console.error("Saved Search Cron Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
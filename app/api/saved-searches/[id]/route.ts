@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, getCurrentUserId } from "@/lib/supabase/server";
+import { deleteSavedSearch, getSavedSearch, listSavedSearchRuns } from "@/lib/search/saved-search-service";
+
+/**
+ * One saved search with its recent runs and their diffs.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const supabase = await createClient();
+        const ownerId = await getCurrentUserId(supabase);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Sign in to use saved searches" }, { status: 401 });
+        }
+
+        const savedSearch = await getSavedSearch(supabase, id, ownerId);
+        if (!savedSearch) {
+            return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+        }
+
+        const runs = await listSavedSearchRuns(supabase, id);
+        return NextResponse.json({ savedSearch, runs });
+    } catch (error: unknown) {
+        console.error("Saved Search Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const supabase = await createClient();
+        const ownerId = await getCurrentUserId(supabase);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Sign in to use saved searches" }, { status: 401 });
+        }
+
+        const savedSearch = await getSavedSearch(supabase, id, ownerId);
+        if (!savedSearch) {
+            return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+        }
+
+        await deleteSavedSearch(supabase, id, ownerId);
+        return NextResponse.json({ ok: true });
+    } catch (error: unknown) {
+        console.error("Delete Saved Search Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
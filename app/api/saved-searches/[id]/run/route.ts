@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, getCurrentUserId } from "@/lib/supabase/server";
+import { getSavedSearch, runSavedSearch } from "@/lib/search/saved-search-service";
+
+// A run searches every input on every platform
+export const maxDuration = 300;
+
+/**
+ * Run a saved search now instead of waiting for the schedule.
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const supabase = await createClient();
+        const ownerId = await getCurrentUserId(supabase);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Sign in to use saved searches" }, { status: 401 });
+        }
+
+        const savedSearch = await getSavedSearch(supabase, id, ownerId);
+        if (!savedSearch) {
+            return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+        }
+
+        const run = await runSavedSearch(supabase, savedSearch);
+        return NextResponse.json({ run });
+    } catch (error: unknown) {
+        console.error("Run Saved Search Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, getCurrentUserId } from "@/lib/supabase/server";
+import { createSavedSearch, listSavedSearches, parseSavedSearchDraft } from "@/lib/search/saved-search-service";
+
+/**
+ * Saved searches of the signed-in user.
+ */
+export async function GET() {
+    try {
+        const supabase = await createClient();
+        const ownerId = await getCurrentUserId(supabase);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Sign in to use saved searches" }, { status: 401 });
+        }
+
+        const savedSearches = await listSavedSearches(supabase, ownerId);
+        return NextResponse.json({ savedSearches });
+    } catch (error: unknown) {
+        console.error("Saved Searches Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await createClient();
+        const ownerId = await getCurrentUserId(supabase);
+        if (!ownerId) {
+            return NextResponse.json({ error: "Sign in to use saved searches" }, { status: 401 });
+        }
+
+        const draft = parseSavedSearchDraft(await request.json());
+        if (typeof draft === "string") {
+            return NextResponse.json({ error: draft }, { status: 400 });
+        }
+
+        const savedSearch = await createSavedSearch(supabase, ownerId, draft);
+        return NextResponse.json({ savedSearch }, { status: 201 });
+    } catch (error: unknown) {
+        console.error("Save Search Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
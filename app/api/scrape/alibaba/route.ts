@@ -39,7 +39,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScrapeRes
                 url,
                 onlyMainContent: false,
                 maxAge: 172800000, // 48 hours cache
-                formats: ['html'],
+                // rawHtml keeps <script> tags, which carry the embedded product data
+                formats: ['rawHtml'],
             }),
         });
 
@@ -54,7 +55,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScrapeRes
 
         const data = await response.json();
 
-        if (!data.success || !data.data?.html) {
+        const html: string | undefined = data.data?.rawHtml ?? data.data?.html;
+
+        if (!data.success || !html) {
             return NextResponse.json({
                 success: false,
                 error: 'Failed to get HTML from Firecrawl'
@@ -62,11 +65,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScrapeRes
         }
 
         // Save to cache
-        await setCachedHtml(url, data.data.html);
+        await setCachedHtml(url, html);
 
         return NextResponse.json({
             success: true,
-            html: data.data.html
+            html
         });
 
     } catch (error) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetch1688ProductDetail, parse1688OfferId } from "@/lib/platforms/1688/service";
+
+export async function GET(request: NextRequest) {
+    const productUrl = request.nextUrl.searchParams.get("url") || request.nextUrl.searchParams.get("offerId");
+
+    if (!productUrl) {
+        return NextResponse.json(
+            { error: "url or offerId parameter is required" },
+            { status: 400 }
+        );
+    }
+
+    const offerId = parse1688OfferId(productUrl);
+    if (!offerId) {
+        return NextResponse.json(
+            { error: "url must be a detail.1688.com/offer/<id>.html URL or offerId a numeric ID" },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const product = await fetch1688ProductDetail(offerId);
+        return NextResponse.json({ source: "1688", product });
+    } catch (error) {
+        console.error("1688 detail API Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { search1688Text } from "@/lib/platforms/1688/service";
+
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get("query") || searchParams.get("keywords");
+    const page = parsePositiveInteger(searchParams.get("page")) || 1;
+
+    if (!query) {
+        return NextResponse.json(
+            { error: "Query parameter is required" },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const { unifiedProducts, totalCount, hasMore } = await search1688Text(query, page);
+
+        return NextResponse.json({
+            source: "1688",
+            query,
+            count: unifiedProducts.length,
+            page,
+            hasMore,
+            totalCount,
+            products: unifiedProducts,
+        });
+    } catch (error) {
+        console.error("1688 API Error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal Server Error" },
+            { status: 500 }
+        );
+    }
+}
+
+function parsePositiveInteger(value: string | null): number | null {
+    if (!value) return null;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) return null;
+    return parsed > 0 ? parsed : null;
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { detectAlibabaImageRegions } from "@/lib/platforms/alibaba/service";
+import { alibabaAdapter } from "@/lib/platforms/alibaba/adapter";
+import { preprocessImage } from "@/lib/platforms/image-preprocessing";
+import { classifySearchError } from "@/lib/platforms/errors";
+
+/**
+ * Detect the objects in an uploaded image so the user can pick which ones to
+ * search. The regions are later sent back with the image input.
+ * Region boxes are in pixels of the preprocessed image, whose size is returned
+ * alongside them.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const file = formData.get("image") as File;
+
+        if (!file) {
+            return NextResponse.json(
+                { error: "Image file is required" },
+                { status: 400 }
+            );
+        }
+
+        const image = await preprocessImage(file, alibabaAdapter.imageRequirements);
+        const { regions } = await detectAlibabaImageRegions(image);
+
+        return NextResponse.json({ regions, width: image.width, height: image.height });
+
+    } catch (error: unknown) {
+        console.error("Alibaba Region Detection Error:", error);
+        const classified = classifySearchError(error);
+        return NextResponse.json(
+            { error: classified.message, kind: classified.kind },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { searchAlibabaText, searchAlibabaImage } from "@/lib/platforms/alibaba/service";
+import { alibabaAdapter } from "@/lib/platforms/alibaba/adapter";
+import { preprocessImage } from "@/lib/platforms/image-preprocessing";
 
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
@@ -61,7 +63,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { unifiedProducts, totalCount } = await searchAlibabaImage(file, page);
+        const image = await preprocessImage(file, alibabaAdapter.imageRequirements);
+        const { unifiedProducts, totalCount } = await searchAlibabaImage(image, page);
         const hasMore = calculateHasMore(totalCount, page, unifiedProducts.length);
 
         return NextResponse.json({
@@ -1,6 +1,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { searchMicText, searchMicImage } from "@/lib/platforms/madeinchina/service";
+import { madeInChinaAdapter } from "@/lib/platforms/madeinchina/adapter";
+import { preprocessImage } from "@/lib/platforms/image-preprocessing";
 
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
@@ -56,7 +58,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { unifiedProducts, hasMore } = await searchMicImage(file, page);
+        const image = await preprocessImage(file, madeInChinaAdapter.imageRequirements);
+        const { unifiedProducts, hasMore } = await searchMicImage(image, page);
 
         return NextResponse.json({
             source: "made-in-china",
@@ -1,11 +1,16 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import {
+    ImageCrop,
+    ImageRegion,
     PlatformType,
+    SearchCursor,
     SearchInput,
-    AggregatedSearchResult
+    SearchType,
+    UnifiedSearchEvent
 } from "@/lib/platforms/types";
 import { searchUnified } from "@/lib/search/unified-service";
+import { getDefaultPlatforms, resolvePlatforms } from "@/lib/platforms/registry";
 
 export async function POST(request: NextRequest) {
     try {
@@ -20,11 +25,12 @@ export async function POST(request: NextRequest) {
             try {
                 const parsedQueries = JSON.parse(queriesJson);
                 if (Array.isArray(parsedQueries)) {
-                    parsedQueries.forEach((q: { id: string, value: string }) => {
+                    parsedQueries.forEach((q: { id: string, value: string, excludeTerms?: unknown }) => {
                         inputs.push({
                             id: q.id,
                             type: 'text',
-                            value: q.value
+                            value: q.value,
+                            excludeTerms: parseTerms(q.excludeTerms)
                         });
                     });
                 }
@@ -43,33 +49,84 @@ export async function POST(request: NextRequest) {
                         id,
                         type: 'image',
                         value: file.name,
-                        file // We have the file object here to pass to service
+                        file, // We have the file object here to pass to service
+                        regions: parseRegions(formData.get(`regions_${id}`)),
+                        crop: parseCrop(formData.get(`crop_${id}`)),
+                        excludeTerms: parseTerms(parseJson(formData.get(`exclude_${id}`)))
                     });
                 }
             }
         }
 
         // Platforms
-        let platforms: PlatformType[] = ['alibaba', 'madeinchina'];
+        let platforms: PlatformType[] = getDefaultPlatforms();
         const platformsJson = formData.get("platforms") as string;
         if (platformsJson) {
             try {
-                platforms = JSON.parse(platformsJson);
+                platforms = resolvePlatforms(JSON.parse(platformsJson));
             } catch (e) {
                 // fallback
             }
         }
 
-        // Execute Shared Search
-        const unifiedResults = await searchUnified(inputs, platforms);
+        // Search Type
+        const searchType: SearchType = formData.get("searchType") === 'suppliers' ? 'suppliers' : 'products';
 
-        const response: AggregatedSearchResult = {
-            inputs: inputs.map(i => ({ id: i.id, type: i.type, value: i.value })), // Exclude file object
-            results: unifiedResults,
-            timestamp: Date.now()
-        };
+        // Exclusion terms applied to every input
+        const excludeTerms = parseTerms(parseJson(formData.get("excludeTerms")));
 
-        return NextResponse.json(response);
+        // Force Refresh: bypass cached platform results
+        const forceRefresh = formData.get("forceRefresh") === 'true';
+
+        // Cursors (present when loading the next slice)
+        let cursors: SearchCursor[] | undefined;
+        const cursorsJson = formData.get("cursors") as string;
+        if (cursorsJson) {
+            try {
+                const parsedCursors = JSON.parse(cursorsJson);
+                if (Array.isArray(parsedCursors)) {
+                    cursors = parsedCursors.filter((c: SearchCursor) =>
+                        typeof c?.inputId === 'string' &&
+                        typeof c?.page === 'number' &&
+                        platforms.includes(c.platform)
+                    );
+                }
+            } catch (e) {
+                console.error("Failed to parse cursors", e);
+            }
+        }
+
+        // Execute Shared Search, streaming each task's suppliers as NDJSON
+        const encoder = new TextEncoder();
+
+        const stream = new ReadableStream({
+            async start(controller) {
+                const send = (event: UnifiedSearchEvent) => {
+                    controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+                };
+
+                try {
+                    await searchUnified(inputs, platforms, { searchType, cursors, forceRefresh, excludeTerms, onEvent: send });
+                } catch (error) {
+                    console.error("Unified stream error:", error);
+                    send({
+                        type: 'error',
+                        error: error instanceof Error ? error.message : 'Unified search failed',
+                        timestamp: Date.now()
+                    });
+                } finally {
+                    controller.close();
+                }
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'application/x-ndjson',
+                'Connection': 'keep-alive',
+                'Cache-Control': 'no-cache',
+            },
+        });
 
     } catch (error: any) {
         console.error("Unified API Error:", error);
@@ -80,3 +137,54 @@ export async function POST(request: NextRequest) {
     }
 }
 
+/**
+ * Regions the user picked for an image input; anything malformed is ignored
+ * and the platform falls back to its default regions.
+ */
+function parseRegions(value: FormDataEntryValue | null): ImageRegion[] | undefined {
+    if (typeof value !== 'string') return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (!Array.isArray(parsed)) return undefined;
+        return parsed.filter((r: ImageRegion) => typeof r?.id === 'string' && r.raw !== undefined);
+    } catch (e) {
+        console.error("Failed to parse regions", e);
+        return undefined;
+    }
+}
+
+/**
+ * Exclusion terms: any non-empty strings; anything else is ignored.
+ */
+function parseTerms(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const terms = value.filter((t): t is string => typeof t === 'string' && t.trim() !== '');
+    return terms.length > 0 ? terms : undefined;
+}
+
+function parseJson(value: FormDataEntryValue | null): unknown {
+    if (typeof value !== 'string') return undefined;
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        console.error("Failed to parse JSON field", e);
+        return undefined;
+    }
+}
+
+/**
+ * Optional crop box as fractions of the image; invalid boxes search the whole image.
+ */
+function parseCrop(value: FormDataEntryValue | null): ImageCrop | undefined {
+    if (typeof value !== 'string') return undefined;
+    try {
+        const { x, y, width, height } = JSON.parse(value);
+        const fractions = [x, y, width, height];
+        if (!fractions.every(n => typeof n === 'number' && n >= 0 && n <= 1)) return undefined;
+        if (width === 0 || height === 0) return undefined;
+        return { x, y, width, height };
+    } catch (e) {
+        console.error("Failed to parse crop", e);
+        return undefined;
+    }
+}
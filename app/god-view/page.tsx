@@ -4,6 +4,10 @@ import { useState, useMemo } from 'react';
 import { Product, ProductDetail } from '@/lib/scrapers/mic-types';
 import { ProductCard } from '@/components/god-view/product-card';
 import { ProductDetailSheet } from '@/components/god-view/product-detail-sheet';
+import { CurrencySelect } from '@/components/search/currency-select';
+import { parsePrice } from '@/lib/platforms/price';
+import { convertPriceRange, formatPriceRange } from '@/lib/search/currency-service';
+import { useSearchPreferences } from '@/lib/search/preferences';
 
 export default function SupplierGodView() {
     const [urls, setUrls] = useState('');
@@ -159,6 +163,7 @@ export default function SupplierGodView() {
     // --- Export Logic ---
     const [isExporting, setIsExporting] = useState(false);
     const [exportProgress, setExportProgress] = useState('');
+    const displayCurrency = useSearchPreferences(state => state.displayCurrency);
 
     const handleExportCsv = async () => {
         const productsToExport = products.filter(p => selectedUrls.has(p.url));
@@ -220,14 +225,21 @@ export default function SupplierGodView() {
                 setExportProgress(`${completed}/${productsToExport.length}`);
             }
 
+            // Converted price only; unconvertible prices stay in "Original Price"
+            const toDisplayPrice = (price: string) => {
+                const converted = convertPriceRange(parsePrice(price), displayCurrency);
+                return converted ? `"${formatPriceRange(converted)}"` : '';
+            };
+
             // Generate CSV with enriched data
-            const headers = ['URL', 'Title', 'Model No.', 'Supplier', 'Keyword', 'Price', 'MOQ'];
+            const headers = ['URL', 'Title', 'Model No.', 'Supplier', 'Keyword', `Price (${displayCurrency})`, 'Original Price', 'MOQ'];
             const rows = enrichedProducts.map((p: any) => [
                 p.url,
                 `"${p.title.replace(/"/g, '""')}"`,
                 p.modelNo ? `"${p.modelNo.replace(/"/g, '""')}"` : '',
                 `"${p.metadata.supplierUrl.replace(/^https?:\/\//, '').split('.')[0]}"`, // Extract supplier name
                 `"${p.metadata.searchKeyword.replace(/"/g, '""')}"`,
+                p.price ? toDisplayPrice(p.price) : '',
                 p.price ? `"${p.price}"` : '',
                 p.moq ? `"${p.moq}"` : '',
             ]);
@@ -324,6 +336,7 @@ export default function SupplierGodView() {
 
                 {products.length > 0 && (
                     <div className="flex items-center gap-2 ml-auto">
+                        <CurrencySelect />
                         <span className="text-sm text-muted-foreground mr-2">
                             {selectedUrls.size} selected
                         </span>
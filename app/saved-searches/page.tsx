@@ -0,0 +1,230 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { SavedSearch, SavedSearchRun } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
+import {
+  fetchSavedSearch,
+  fetchSavedSearches,
+  removeSavedSearch,
+  runSavedSearchNow
+} from '@/lib/search/saved-searches-client';
+import { countDiffChanges } from '@/lib/search/search-diff';
+import { RunDiff } from '@/components/saved-searches/run-diff';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, ArrowLeft, Loader2, Play, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export default function SavedSearchesPage() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<SavedSearchRun[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingRuns, setLoadingRuns] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = savedSearches.find(s => s.id === selectedId) ?? null;
+
+  useEffect(() => {
+    fetchSavedSearches()
+      .then(list => {
+        setSavedSearches(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const loadRuns = useCallback(async (id: string) => {
+    setLoadingRuns(true);
+    try {
+      const { savedSearch, runs } = await fetchSavedSearch(id);
+      setSavedSearches(prev => prev.map(s => s.id === id ? savedSearch : s));
+      setRuns(runs);
+      setExpandedRunId(runs[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load runs');
+    } finally {
+      setLoadingRuns(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadRuns(selectedId);
+    else setRuns([]);
+  }, [selectedId, loadRuns]);
+
+  const handleRunNow = async () => {
+    if (!selected) return;
+    setRunning(true);
+    setError(null);
+    try {
+      await runSavedSearchNow(selected.id);
+      await loadRuns(selected.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete "${selected.name}" and its run history?`)) return;
+    try {
+      await removeSavedSearch(selected.id);
+      const remaining = savedSearches.filter(s => s.id !== selected.id);
+      setSavedSearches(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Saved searches</h1>
+          <p className="text-muted-foreground">
+            Re-run on a schedule; each run lists the suppliers and products that are new or gone.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/search">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to search
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Something went wrong</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : savedSearches.length === 0 ? (
+        <p className="text-muted-foreground">
+          No saved searches yet. Run a search and use &quot;Save search&quot; to keep it.
+        </p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+          {/* Saved Search List */}
+          <ul className="space-y-1">
+            {savedSearches.map(search => (
+              <li key={search.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(search.id)}
+                  className={cn(
+                    'w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted',
+                    search.id === selectedId && 'bg-muted font-medium'
+                  )}
+                >
+                  <span className="block truncate">{search.name}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {search.lastRunAt ? `Last run ${new Date(search.lastRunAt).toLocaleString()}` : 'Not run yet'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Selected Search and Its Runs */}
+          {selected && (
+            <div className="space-y-4">
+              <div className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">{selected.name}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      {selected.searchType === 'suppliers' ? 'Supplier' : 'Product'} search every{' '}
+                      {selected.intervalDays === 1 ? 'day' : `${selected.intervalDays} days`} on{' '}
+                      {selected.platforms.map(p => PLATFORM_LABELS[p]).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleRunNow} disabled={running}>
+                      {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                      Run now
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={handleDelete} disabled={running}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {selected.inputs.map(input => (
+                    <Badge key={input.id} variant="secondary">{input.value}</Badge>
+                  ))}
+                  {selected.excludeTerms.map(term => (
+                    <Badge key={term} variant="outline" className="line-through">{term}</Badge>
+                  ))}
+                  {selected.filters.length > 0 && (
+                    <Badge variant="outline">{selected.filters.length} filters</Badge>
+                  )}
+                </div>
+              </div>
+
+              {loadingRuns ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No runs yet. It will run on the next schedule, or use Run now.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {runs.map(run => {
+                    const expanded = run.id === expandedRunId;
+                    return (
+                      <li key={run.id} className="rounded-lg border">
+                        <button
+                          type="button"
+                          onClick={() => setExpandedRunId(expanded ? null : run.id)}
+                          className="w-full flex items-center justify-between gap-4 px-4 py-3 text-sm text-left hover:bg-muted/50"
+                        >
+                          <span className="font-medium">{new Date(run.ranAt).toLocaleString()}</span>
+                          <span className="flex items-center gap-2 text-muted-foreground">
+                            {run.resultCount} suppliers
+                            {run.failedTasks > 0 && (
+                              <Badge variant="destructive" className="text-[10px]">{run.failedTasks} failed</Badge>
+                            )}
+                            {run.diff
+                              ? <Badge variant="secondary">{countDiffChanges(run.diff)} changes</Badge>
+                              : <Badge variant="outline">First run</Badge>}
+                          </span>
+                        </button>
+                        {expanded && (
+                          <div className="border-t px-4 py-3">
+                            {run.diff
+                              ? <RunDiff diff={run.diff} />
+                              : <p className="text-sm text-muted-foreground">
+                                First run: {run.snapshot.suppliers.length} suppliers and {run.snapshot.products.length} products recorded as the baseline.
+                              </p>}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,41 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { MultiInputSearchBar } from '@/components/search/multi-input-search-bar';
 import { ProductGrid } from '@/components/search/product-grid';
 import { ProductDetailSheet } from '@/components/search/product-detail-sheet';
 import { PlatformFilter } from '@/components/search/platform-filter';
 import { AdvancedFilters } from '@/components/search/advanced-filters';
 import { InputFilter } from '@/components/search/input-filter';
-import { UnifiedSupplier, PlatformType, SearchInput, FilterValue } from '@/lib/platforms/types';
+import { SearchProgress } from '@/components/search/search-progress';
+import { SearchFailures } from '@/components/search/search-failures';
+import { RankingWeights } from '@/components/search/ranking-weights';
+import { SortSelect } from '@/components/search/sort-select';
+import { SearchTypeToggle } from '@/components/search/search-type-toggle';
+import { CurrencySelect } from '@/components/search/currency-select';
+import { SaveSearchForm } from '@/components/search/save-search-form';
+import Link from 'next/link';
+import {
+  UnifiedSupplier,
+  PlatformType,
+  SearchInput,
+  SearchCursor,
+  SearchTaskStatus,
+  SearchType,
+  UnifiedSearchEvent,
+  FilterValue,
+  MergeDecision,
+  SupplierMergeProposal
+} from '@/lib/platforms/types';
+import { DEFAULT_PLATFORMS, PLATFORM_LABELS, PLATFORMS } from '@/lib/platforms/metadata';
 import { searchUnified } from '@/lib/search/search-service';
 import { applyFilters } from '@/lib/search/filter-service';
-import { CheckCircle2 } from 'lucide-react';
+import { mergeSuppliers } from '@/lib/search/merge-service';
+import { applyMergeDecisions, getSupplierEntityKey, proposeSupplierMerges } from '@/lib/search/entity-resolution';
+import { DEFAULT_RANKING_WEIGHTS, RankingWeights as Weights, rankSuppliers } from '@/lib/search/ranking-service';
+import { SortOption, sortSuppliers } from '@/lib/search/sort-service';
+import { Bookmark, CheckCircle2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ChatSidebar } from "@/components/agent/chat-sidebar";
 import { useSearchStore } from "@/lib/agent/state";
@@ -19,8 +44,20 @@ export default function SearchPage() {
   const [inputs, setInputs] = useState<SearchInput[]>([]);
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<UnifiedSupplier[]>([]);
+  const [cursors, setCursors] = useState<SearchCursor[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [taskStatuses, setTaskStatuses] = useState<SearchTaskStatus[]>([]);
+  const [mergeDecisions, setMergeDecisions] = useState<Record<string, MergeDecision>>({});
+  const [rankingWeights, setRankingWeights] = useState<Weights>(DEFAULT_RANKING_WEIGHTS);
+  const [sortOption, setSortOption] = useState<SortOption>('relevance');
+  const [searchType, setSearchType] = useState<SearchType>('products');
+  // Search type of the results on screen; Load more must keep using it
+  const [resultsSearchType, setResultsSearchType] = useState<SearchType>('products');
+  const [excludeTerms, setExcludeTerms] = useState<string[]>([]);
+  // Exclusions of the results on screen; Load more must keep using them
+  const [resultsExcludeTerms, setResultsExcludeTerms] = useState<string[]>([]);
   const [selectedPlatforms, setSelectedPlatforms] = useState<Set<PlatformType>>(
-    new Set(['alibaba', 'madeinchina'])
+    new Set(DEFAULT_PLATFORMS)
   );
 
   // Agent Store Sync
@@ -51,38 +88,130 @@ export default function SearchPage() {
     }
   }, [agentResults, agentInputs, loading]);
 
-  const handleSearch = async (searchInputs: SearchInput[]) => {
+  // Streamed events: merge each finished task into the grid as it arrives
+  const handleStreamEvent = (event: UnifiedSearchEvent) => {
+    if (event.type === 'start') {
+      // Load more restarts only some pairs; keep the rows of the others
+      setTaskStatuses(prev => [
+        ...prev.filter(t => !event.tasks.some(n => n.inputId === t.inputId && n.platform === t.platform)),
+        ...event.tasks,
+      ]);
+    } else if (event.type === 'partial') {
+      setResults(prev => mergeSuppliers(prev, event.results));
+      setTaskStatuses(prev => prev.map(t =>
+        t.inputId === event.task.inputId && t.platform === event.task.platform ? event.task : t
+      ));
+    }
+  };
+
+  const handleSearch = async (searchInputs: SearchInput[], forceRefresh = false) => {
     setInputs(searchInputs);
+    setResults([]);
+    setTaskStatuses([]);
+    setMergeDecisions({});
     setLoading(true);
     setActiveFilters([]);
     setSelectedInputId(null);
+    setResultsSearchType(searchType);
+    setResultsExcludeTerms(excludeTerms);
 
     try {
       const platforms: PlatformType[] = Array.from(selectedPlatforms);
-      const aggregatedResults = await searchUnified(searchInputs, platforms);
+      const aggregatedResults = await searchUnified(searchInputs, platforms, {
+        searchType,
+        forceRefresh,
+        excludeTerms,
+        onEvent: handleStreamEvent
+      });
       setResults(aggregatedResults.results);
+      setCursors(aggregatedResults.cursors);
       setAgentResults(aggregatedResults.results); // Sync to Agent Store
       setAgentInputs(searchInputs); // Sync Inputs to Agent Store
     } catch (error) {
       console.error('Search failed:', error);
       setResults([]);
+      setCursors([]);
     } finally {
       setLoading(false);
     }
   };
 
+  // Cursors only apply to the inputs of the last manual search
+  const activeCursors = cursors.filter(c => inputs.some(i => i.id === c.inputId));
+  const canLoadMore = activeCursors.some(c => c.hasMore);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+
+    try {
+      const platforms = Array.from(new Set(activeCursors.map(c => c.platform)));
+      const nextSlice = await searchUnified(inputs, platforms, {
+        searchType: resultsSearchType,
+        excludeTerms: resultsExcludeTerms,
+        cursors: activeCursors,
+        onEvent: handleStreamEvent
+      });
+      const merged = mergeSuppliers(results, nextSlice.results);
+      setResults(merged);
+      setCursors(nextSlice.cursors);
+      setAgentResults(merged); // Sync to Agent Store
+    } catch (error) {
+      console.error('Load more failed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Entity Resolution: propose cross-platform merges and apply the user's decisions
+  const mergeProposals = useMemo(() => proposeSupplierMerges(results), [results]);
+  const resolvedResults = applyMergeDecisions(results, mergeProposals, mergeDecisions);
+
+  const mergeSuggestions = useMemo(() => {
+    const byKey = new Map(results.map(r => [getSupplierEntityKey(r), r]));
+    const suggestions = new Map<string, { proposal: SupplierMergeProposal; counterpart: UnifiedSupplier }>();
+
+    mergeProposals
+      .filter(p => !mergeDecisions[p.id])
+      .forEach(proposal => {
+        const counterpart = byKey.get(proposal.supplierKeys[1]);
+        if (counterpart) suggestions.set(proposal.supplierKeys[0], { proposal, counterpart });
+      });
+
+    return suggestions;
+  }, [results, mergeProposals, mergeDecisions]);
+
+  const handleMergeDecision = (proposalId: string, decision: MergeDecision) => {
+    setMergeDecisions(prev => ({ ...prev, [proposalId]: decision }));
+  };
+
   // Filter Logic:
   // 1. Platform Filter
   // 2. Input Source Filter
   // 3. Advanced Filters
 
-  const platformFiltered = results.filter(r => selectedPlatforms.has(r.platform));
+  const platformFiltered = resolvedResults.filter(r =>
+    selectedPlatforms.has(r.platform) || r.storefronts?.some(s => selectedPlatforms.has(s.platform))
+  );
 
   const inputFiltered = selectedInputId
     ? platformFiltered.filter(r => r.matchedInputIds?.includes(selectedInputId))
     : platformFiltered;
 
-  const finalDisplayProducts = applyFilters(inputFiltered, activeFilters);
+  const filteredProducts = applyFilters(inputFiltered, activeFilters);
+
+  // 4. Relevance Ranking, then the user's sort (relevance keeps ranked order)
+  const rankedProducts = rankSuppliers(filteredProducts, rankingWeights, inputs.length);
+  const finalDisplayProducts = sortSuppliers(rankedProducts.map(r => r.supplier), sortOption);
+  const selectedScore = rankedProducts.find(r => r.supplier.id === selectedProduct?.id)?.score;
+
+  // Platform results served from the search result cache
+  const finishedTasks = taskStatuses.filter(s => s.state === 'done');
+  const cachedTasks = finishedTasks.filter(s => s.cache === 'hit');
+  const excludedCount = finishedTasks.reduce((sum, s) => sum + (s.excludedCount ?? 0), 0);
+  const oldestCachedAt = cachedTasks.reduce<number | null>(
+    (oldest, s) => s.cachedAt && (oldest === null || s.cachedAt < oldest) ? s.cachedAt : oldest,
+    null
+  );
 
   return (
     <div className="flex min-h-screen w-full">
@@ -94,9 +223,19 @@ export default function SearchPage() {
             Multi-Platform Supplier Search
           </h1>
           <p className="text-muted-foreground mb-6">
-            Search across Alibaba and Made-in-China using text and images simultaneously.
+            Search across {PLATFORMS.map(p => PLATFORM_LABELS[p]).join(', ')} using text and images simultaneously.{' '}
+            <Link href="/saved-searches" className="inline-flex items-center gap-1 underline">
+              <Bookmark className="h-3 w-3" />
+              Saved searches
+            </Link>
           </p>
-          <MultiInputSearchBar onSearch={handleSearch} loading={loading} />
+          <SearchTypeToggle value={searchType} onChange={setSearchType} disabled={loading} />
+          <MultiInputSearchBar
+            onSearch={handleSearch}
+            loading={loading}
+            excludeTerms={excludeTerms}
+            onExcludeTermsChange={setExcludeTerms}
+          />
         </div>
 
         {/* Filters Section */}
@@ -110,8 +249,11 @@ export default function SearchPage() {
             activePlatforms={selectedPlatforms}
             activeFilters={activeFilters}
             onFilterChange={setActiveFilters}
+            suppliers={inputFiltered}
           />
 
+          <RankingWeights weights={rankingWeights} onChange={setRankingWeights} />
+
           {/* Input Source Filter */}
           {inputs.length > 1 && !loading && (
             <InputFilter
@@ -122,9 +264,15 @@ export default function SearchPage() {
           )}
         </div>
 
+        {/* Live Progress While Streaming */}
+        {(loading || loadingMore) && (
+          <SearchProgress tasks={taskStatuses} inputs={inputs} />
+        )}
+
         {/* Search Status Messages */}
         {inputs.length > 0 && !loading && (
           <div className="mb-6 space-y-3">
+            <SearchFailures statuses={taskStatuses} inputs={inputs} />
             {finalDisplayProducts.length > 0 && (
               <Alert>
                 <CheckCircle2 className="h-4 w-4" />
@@ -132,12 +280,48 @@ export default function SearchPage() {
                 <AlertDescription>
                   Found {finalDisplayProducts.length} suppliers matching your criteria.
                   {(activeFilters.length > 0 || selectedInputId) && ` (Filtered from ${platformFiltered.length})`}
+                  {excludedCount > 0 && ` ${excludedCount} results hidden by exclusion terms.`}
+                  {cachedTasks.length > 0 && (
+                    <span className="block text-muted-foreground">
+                      {cachedTasks.length} of {finishedTasks.length} platform results came from cache
+                      {oldestCachedAt && ` (fetched ${new Date(oldestCachedAt).toLocaleString()})`}.{' '}
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0"
+                        onClick={() => handleSearch(inputs, true)}
+                      >
+                        Refresh from live sites
+                      </Button>
+                    </span>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
           </div>
         )}
 
+        {/* Save, Sort and Currency Controls */}
+        <div className="mb-4 flex flex-wrap items-center justify-end gap-4">
+          {inputs.length > 0 && !loading && (
+            <div className="mr-auto">
+              <SaveSearchForm
+                search={{
+                  inputs,
+                  platforms: Array.from(selectedPlatforms),
+                  searchType: resultsSearchType,
+                  filters: activeFilters,
+                  excludeTerms: resultsExcludeTerms
+                }}
+              />
+            </div>
+          )}
+          <CurrencySelect />
+          {finalDisplayProducts.length > 1 && (
+            <SortSelect value={sortOption} onChange={setSortOption} />
+          )}
+        </div>
+
         {/* Results Grid */}
         <ProductGrid
           products={finalDisplayProducts}
@@ -145,7 +329,7 @@ export default function SearchPage() {
             setSelectedProduct(product);
             setDetailSheetOpen(true);
           }}
-          loading={loading}
+          loading={loading && finalDisplayProducts.length === 0}
           emptyMessage={
             selectedPlatforms.size === 0
               ? "No platforms selected. Please select at least one platform to view results."
@@ -154,7 +338,18 @@ export default function SearchPage() {
                 : 'Add text or image inputs, or ask the Agent on the right to start searching.'
           }
           inputs={inputs}
+          mergeSuggestions={mergeSuggestions}
+          onMergeDecision={handleMergeDecision}
         />
+
+        {canLoadMore && !loading && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Right Sidebar - Agent Chat */}
@@ -167,6 +362,7 @@ export default function SearchPage() {
         product={selectedProduct}
         open={detailSheetOpen}
         onOpenChange={setDetailSheetOpen}
+        score={selectedScore}
       />
     </div>
   );
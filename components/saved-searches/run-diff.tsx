@@ -0,0 +1,68 @@
+'use client';
+
+import { SearchDiff, SnapshotProduct, SnapshotSupplier } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
+import { Badge } from '@/components/ui/badge';
+import { Minus, Plus } from 'lucide-react';
+
+interface RunDiffProps {
+    diff: SearchDiff;
+}
+
+/**
+ * New and gone suppliers and products of one saved-search run.
+ */
+export function RunDiff({ diff }: RunDiffProps) {
+    const sections = [
+        { title: 'New suppliers', items: diff.addedSuppliers, added: true },
+        { title: 'Gone suppliers', items: diff.removedSuppliers, added: false },
+        { title: 'New products', items: diff.addedProducts, added: true },
+        { title: 'Gone products', items: diff.removedProducts, added: false },
+    ].filter(section => section.items.length > 0);
+
+    if (sections.length === 0) {
+        return <p className="text-sm text-muted-foreground">No changes since the previous run.</p>;
+    }
+
+    return (
+        <div className="grid gap-4 md:grid-cols-2">
+            {sections.map(section => (
+                <div key={section.title} className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center gap-1">
+                        {section.added
+                            ? <Plus className="h-3 w-3 text-green-600" />
+                            : <Minus className="h-3 w-3 text-destructive" />}
+                        {section.title}
+                        <span className="text-muted-foreground">({section.items.length})</span>
+                    </h4>
+                    <ul className="space-y-1 text-sm">
+                        {section.items.map(item => (
+                            <li key={item.key} className="flex items-center gap-2">
+                                <Badge variant="outline" className="text-[10px] shrink-0">
+                                    {PLATFORM_LABELS[item.platform]}
+                                </Badge>
+                                <DiffItemLink item={item} />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function DiffItemLink({ item }: { item: SnapshotSupplier | SnapshotProduct }) {
+    const label = 'title' in item ? item.title : item.name;
+    const detail = 'title' in item
+        ? [item.supplierName, item.price].filter(Boolean).join(' · ')
+        : `${item.productCount} products`;
+
+    return (
+        <span className="min-w-0 truncate">
+            {item.url ? (
+                <a href={item.url} target="_blank" rel="noreferrer" className="hover:underline">{label}</a>
+            ) : label}
+            {detail && <span className="text-muted-foreground"> — {detail}</span>}
+        </span>
+    );
+}
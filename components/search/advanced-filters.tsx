@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { FilterDefinition, FilterValue, PlatformType } from '@/lib/platforms/types';
-import { getSupportedFilters } from '@/lib/search/filter-service';
+import { useMemo } from 'react';
+import { FilterDefinition, FilterValue, PlatformType, UnifiedSupplier } from '@/lib/platforms/types';
+import { getPriceFilter, getSupportedFilters, getUnsupportedPlatforms } from '@/lib/search/filter-service';
+import { convertAmount } from '@/lib/search/currency-service';
+import { useSearchPreferences } from '@/lib/search/preferences';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
@@ -14,16 +17,21 @@ interface AdvancedFiltersProps {
     activePlatforms: Set<PlatformType>;
     activeFilters: FilterValue[];
     onFilterChange: (filters: FilterValue[]) => void;
+    // Current result set; the price slider is bounded by its prices
+    suppliers: UnifiedSupplier[];
 }
 
-export function AdvancedFilters({ activePlatforms, activeFilters, onFilterChange }: AdvancedFiltersProps) {
-    const [availableFilters, setAvailableFilters] = useState<FilterDefinition[]>([]);
+type RangeValue = { min: number; max: number; currency?: string };
 
-    useEffect(() => {
-        const allFilters = getSupportedFilters();
-        const relevantFilters = allFilters.filter(f => activePlatforms.has(f.platform));
-        setAvailableFilters(relevantFilters);
-    }, [activePlatforms]);
+export function AdvancedFilters({ activePlatforms, activeFilters, onFilterChange, suppliers }: AdvancedFiltersProps) {
+    const displayCurrency = useSearchPreferences((state) => state.displayCurrency);
+    const priceFilter = useMemo(() => getPriceFilter(suppliers, displayCurrency), [suppliers, displayCurrency]);
+
+    const availableFilters = useMemo(() => {
+        return getSupportedFilters()
+            .filter(f => !f.platform || activePlatforms.has(f.platform))
+            .flatMap(f => f.id === 'price' ? (priceFilter ? [priceFilter] : []) : [f]);
+    }, [activePlatforms, priceFilter]);
 
     const handleFilterUpdate = (filterId: string, value: any) => {
         const newFilters = activeFilters.filter(f => f.filterId !== filterId);
@@ -45,6 +53,35 @@ export function AdvancedFilters({ activePlatforms, activeFilters, onFilterChange
         return activeFilters.find(f => f.filterId === filterId)?.value;
     };
 
+    // Slider position; a price range entered in another currency is converted
+    const getRangeValue = (filter: FilterDefinition): [number, number] => {
+        const bounds: [number, number] = [filter.min || 0, filter.max || 100];
+        const value = getFilterValue(filter.id) as RangeValue | undefined;
+        if (!value) return bounds;
+        if (!value.currency || !filter.unit || value.currency === filter.unit) return [value.min, value.max];
+
+        const min = convertAmount(value.min, value.currency, filter.unit);
+        const max = convertAmount(value.max, value.currency, filter.unit);
+        return min !== null && max !== null ? [min, max] : bounds;
+    };
+
+    const handleRangeUpdate = (filter: FilterDefinition, vals: number[]) => {
+        const range: RangeValue = { min: vals[0], max: vals[1] };
+        if (filter.id === 'price') range.currency = displayCurrency;
+        handleFilterUpdate(filter.id, range);
+    };
+
+    // Cross-platform filters let suppliers of platforms without the data through
+    const getUnsupportedNote = (filterId: string) => {
+        const platforms = getUnsupportedPlatforms(filterId).filter(p => activePlatforms.has(p));
+        if (platforms.length === 0) return null;
+        return `Not available on ${platforms.map(p => PLATFORM_LABELS[p]).join(', ')}; their suppliers are not filtered.`;
+    };
+
+    const formatRangeBound = (filter: FilterDefinition, amount: number) => {
+        return (filter.step ?? 1) < 1 ? amount.toFixed(2) : Math.round(amount);
+    };
+
     const clearFilters = () => {
         onFilterChange([]);
     };
@@ -68,7 +105,9 @@ export function AdvancedFilters({ activePlatforms, activeFilters, onFilterChange
                     <div key={filter.id} className="space-y-2">
                         <Label className="text-xs text-muted-foreground uppercase tracking-wider">
                             {filter.label}
-                            <span className="ml-1 text-[10px] opacity-70">({filter.platform})</span>
+                            {filter.platform && (
+                                <span className="ml-1 text-[10px] opacity-70">({PLATFORM_LABELS[filter.platform]})</span>
+                            )}
                         </Label>
 
                         {filter.type === 'boolean' && (
@@ -108,25 +147,28 @@ export function AdvancedFilters({ activePlatforms, activeFilters, onFilterChange
                                     defaultValue={[filter.min || 0, filter.max || 100]}
                                     max={filter.max}
                                     min={filter.min}
-                                    step={1}
-                                    value={
-                                        (getFilterValue(filter.id) as { min: number; max: number })
-                                            ? [(getFilterValue(filter.id) as { min: number; max: number }).min, (getFilterValue(filter.id) as { min: number; max: number }).max]
-                                            : [filter.min || 0, filter.max || 100]
-                                    }
-                                    onValueChange={(vals: number[]) => handleFilterUpdate(filter.id, { min: vals[0], max: vals[1] })}
+                                    step={filter.step ?? 1}
+                                    value={getRangeValue(filter)}
+                                    onValueChange={(vals: number[]) => handleRangeUpdate(filter, vals)}
                                     className="my-4"
                                 />
                                 <div className="flex justify-between text-xs text-muted-foreground">
                                     <span>
-                                        {(getFilterValue(filter.id) as { min: number })?.min ?? filter.min} {filter.unit}
+                                        {formatRangeBound(filter, getRangeValue(filter)[0])} {filter.unit}
                                     </span>
                                     <span>
-                                        {(getFilterValue(filter.id) as { max: number })?.max ?? filter.max} {filter.unit}
+                                        {formatRangeBound(filter, getRangeValue(filter)[1])} {filter.unit}
                                     </span>
                                 </div>
                             </div>
                         )}
+
+                        {filter.note && (
+                            <p className="text-[10px] text-muted-foreground">{filter.note}</p>
+                        )}
+                        {getUnsupportedNote(filter.id) && (
+                            <p className="text-[10px] text-muted-foreground">{getUnsupportedNote(filter.id)}</p>
+                        )}
                     </div>
                 ))}
             </div>
@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect } from 'react';
+import { DISPLAY_CURRENCIES, DisplayCurrency } from '@/lib/search/currency-service';
+import { useSearchPreferences } from '@/lib/search/preferences';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Coins } from 'lucide-react';
+
+export function CurrencySelect() {
+    const displayCurrency = useSearchPreferences((state) => state.displayCurrency);
+    const setDisplayCurrency = useSearchPreferences((state) => state.setDisplayCurrency);
+
+    useEffect(() => {
+        useSearchPreferences.persist.rehydrate();
+    }, []);
+
+    return (
+        <div className="flex items-center gap-2">
+            <Label htmlFor="display-currency" className="text-sm text-muted-foreground flex items-center gap-1 whitespace-nowrap">
+                <Coins className="h-3 w-3" />
+                Currency
+            </Label>
+            <Select value={displayCurrency} onValueChange={(val: string) => setDisplayCurrency(val as DisplayCurrency)}>
+                <SelectTrigger id="display-currency" className="w-[120px]">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {DISPLAY_CURRENCIES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
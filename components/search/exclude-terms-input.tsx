@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, KeyboardEvent } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Ban, X } from 'lucide-react';
+import { normalizeExcludeTerms } from '@/lib/search/exclusion-service';
+
+interface ExcludeTermsInputProps {
+    terms: string[];
+    onChange: (terms: string[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Exclusion terms applied to every search input, e.g. "spare part" or
+ * "accessory". Comma-separated entries are added as separate terms.
+ */
+export function ExcludeTermsInput({ terms, onChange, disabled = false }: ExcludeTermsInputProps) {
+    const [draft, setDraft] = useState('');
+
+    const addDraft = () => {
+        const added = draft.split(',');
+        if (!draft.trim()) return;
+        onChange(normalizeExcludeTerms([...terms, ...added]));
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            addDraft();
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Ban className="h-3 w-3" />
+                Exclude
+            </span>
+            {terms.map(term => (
+                <Badge key={term} variant="outline" className="pl-2 pr-1 py-0.5 text-xs">
+                    <span className="line-through decoration-muted-foreground/60">{term}</span>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-4 w-4 ml-1 hover:bg-transparent text-muted-foreground hover:text-foreground"
+                        onClick={() => onChange(terms.filter(t => t !== term))}
+                        disabled={disabled}
+                    >
+                        <X className="h-3 w-3" />
+                    </Button>
+                </Badge>
+            ))}
+            <Input
+                type="text"
+                placeholder="spare part, accessory..."
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={addDraft}
+                disabled={disabled}
+                className="h-7 w-48 text-xs"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ImageRegion } from '@/lib/platforms/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ImageRegionPickerProps {
+    file: File;
+    regions: ImageRegion[];
+    // Size of the image the boxes were detected on; defaults to the file's own size
+    imageSize?: { width: number; height: number } | null;
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+    onRemove: () => void;
+    detecting?: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * Uploaded image with Alibaba's detected regions drawn as boxes.
+ * Clicking a box toggles it; with nothing selected every default region is searched.
+ */
+export function ImageRegionPicker({
+    file,
+    regions,
+    imageSize = null,
+    selectedIds,
+    onChange,
+    onRemove,
+    detecting = false,
+    disabled = false
+}: ImageRegionPickerProps) {
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(file);
+        setPreviewUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    const drawable = regions.filter(r => r.box);
+    // Detection runs on the resized, EXIF-rotated upload, so scale boxes against that
+    const boxSpace = imageSize ?? naturalSize;
+
+    const toggle = (id: string) => {
+        onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+    };
+
+    return (
+        <div className="rounded-lg border bg-card p-2 space-y-2 w-[220px]">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium truncate">{file.name}</span>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 text-muted-foreground hover:text-foreground"
+                    onClick={onRemove}
+                    disabled={disabled}
+                >
+                    <X className="h-3 w-3" />
+                </Button>
+            </div>
+
+            <div className="relative w-full overflow-hidden rounded-md bg-muted">
+                {previewUrl && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                        src={previewUrl}
+                        alt={file.name}
+                        className="block w-full h-auto"
+                        onLoad={(e) => setNaturalSize({
+                            width: e.currentTarget.naturalWidth,
+                            height: e.currentTarget.naturalHeight
+                        })}
+                    />
+                )}
+
+                {naturalSize && boxSpace && drawable.map((region, index) => {
+                    const box = region.box!;
+                    const selected = selectedIds.includes(region.id);
+                    return (
+                        <button
+                            key={region.id}
+                            type="button"
+                            disabled={disabled}
+                            onClick={() => toggle(region.id)}
+                            className={cn(
+                                'absolute border-2 rounded-sm transition-colors',
+                                selected
+                                    ? 'border-primary bg-primary/20'
+                                    : 'border-white/80 border-dashed hover:border-primary hover:bg-primary/10'
+                            )}
+                            style={{
+                                left: `${(box.x / boxSpace.width) * 100}%`,
+                                top: `${(box.y / boxSpace.height) * 100}%`,
+                                width: `${(box.width / boxSpace.width) * 100}%`,
+                                height: `${(box.height / boxSpace.height) * 100}%`,
+                            }}
+                            title={`Region ${index + 1}`}
+                        >
+                            <span className="absolute -top-0.5 -left-0.5 bg-background text-[10px] px-1 rounded-br-sm">
+                                {index + 1}
+                            </span>
+                        </button>
+                    );
+                })}
+
+                {detecting && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+                <Badge variant="outline" className="text-[10px]">
+                    {detecting
+                        ? 'Detecting objects...'
+                        : selectedIds.length > 0
+                            ? `${selectedIds.length} of ${regions.length} regions`
+                            : regions.length > 0
+                                ? 'Click boxes to pick regions'
+                                : 'No regions detected'}
+                </Badge>
+                {selectedIds.length > 0 && (
+                    <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-[10px]"
+                        onClick={() => onChange([])}
+                        disabled={disabled}
+                    >
+                        Clear
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -6,28 +6,57 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Search, Plus, X, Image as ImageIcon, Loader2 } from 'lucide-react';
 import { SearchInput } from '@/lib/platforms/types';
+import { DetectedImageRegions, detectImageRegions } from '@/lib/search/search-service';
+import { ImageRegionPicker } from '@/components/search/image-region-picker';
+import { ExcludeTermsInput } from '@/components/search/exclude-terms-input';
+import { normalizeExcludeTerms, parseQueryExclusions } from '@/lib/search/exclusion-service';
 import { v4 as uuidv4 } from 'uuid';
 
 interface MultiInputSearchBarProps {
     onSearch: (inputs: SearchInput[]) => void;
     loading?: boolean;
+    // Exclusions for every input; typed `-term`s exclude for that keyword only
+    excludeTerms?: string[];
+    onExcludeTermsChange?: (terms: string[]) => void;
 }
 
-export function MultiInputSearchBar({ onSearch, loading = false }: MultiInputSearchBarProps) {
+export function MultiInputSearchBar({
+    onSearch,
+    loading = false,
+    excludeTerms = [],
+    onExcludeTermsChange
+}: MultiInputSearchBarProps) {
     const [textInput, setTextInput] = useState('');
     const [inputs, setInputs] = useState<SearchInput[]>([]);
+    // Regions detected per image input; the selected subset lives on the input itself
+    const [detectedRegions, setDetectedRegions] = useState<Record<string, DetectedImageRegions>>({});
+    const [detecting, setDetecting] = useState<Set<string>>(new Set());
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const addTextInput = () => {
-        if (!textInput.trim()) return;
+    /**
+     * "cnc lathe -spare" becomes a keyword with its own exclusion. Text made only
+     * of `-term`s is added to the search-wide exclusions instead.
+     */
+    const parseTextInput = (text: string): SearchInput | null => {
+        const { value, excludeTerms: terms } = parseQueryExclusions(text);
+        if (!value) {
+            if (terms.length > 0) onExcludeTermsChange?.(normalizeExcludeTerms([...excludeTerms, ...terms]));
+            return null;
+        }
 
-        const newInput: SearchInput = {
+        return {
             id: uuidv4(),
             type: 'text',
-            value: textInput.trim()
+            value,
+            ...(terms.length > 0 && { excludeTerms: terms })
         };
+    };
 
-        setInputs([...inputs, newInput]);
+    const addTextInput = () => {
+        if (!textInput.trim()) return;
+
+        const newInput = parseTextInput(textInput);
+        if (newInput) setInputs([...inputs, newInput]);
         setTextInput('');
     };
 
@@ -57,26 +86,49 @@ export function MultiInputSearchBar({ onSearch, loading = false }: MultiInputSea
             setInputs([...inputs, ...newInputs]);
             // Reset input so same file can be selected again if removed
             if (fileInputRef.current) fileInputRef.current.value = '';
+
+            newInputs.forEach(input => detectRegions(input));
         }
     };
 
+    const detectRegions = async (input: SearchInput) => {
+        if (!input.file) return;
+
+        setDetecting(prev => new Set(prev).add(input.id));
+        const detection = await detectImageRegions(input.file);
+        setDetectedRegions(prev => ({ ...prev, [input.id]: detection }));
+        setDetecting(prev => {
+            const next = new Set(prev);
+            next.delete(input.id);
+            return next;
+        });
+    };
+
+    const selectRegions = (inputId: string, selectedIds: string[]) => {
+        const regions = detectedRegions[inputId]?.regions ?? [];
+        setInputs(prev => prev.map(i => i.id === inputId
+            ? { ...i, regions: regions.filter(r => selectedIds.includes(r.id)) }
+            : i
+        ));
+    };
+
     const removeInput = (id: string) => {
         setInputs(inputs.filter(i => i.id !== id));
     };
 
+    const imageInputs = inputs.filter(i => i.type === 'image' && i.file);
+
     const handleSearchClick = () => {
         // If there is text in the input but not added yet, add it first?
         // Or just ignore. Usually convenient to search what is active.
         // Let's add it if it exists.
         let finalInputs = [...inputs];
         if (textInput.trim()) {
-            const tempInput: SearchInput = {
-                id: uuidv4(),
-                type: 'text',
-                value: textInput.trim()
-            };
-            finalInputs.push(tempInput);
-            setInputs(finalInputs);
+            const tempInput = parseTextInput(textInput);
+            if (tempInput) {
+                finalInputs.push(tempInput);
+                setInputs(finalInputs);
+            }
             setTextInput('');
         }
 
@@ -92,7 +144,7 @@ export function MultiInputSearchBar({ onSearch, loading = false }: MultiInputSea
                 <div className="relative flex-1">
                     <Input
                         type="text"
-                        placeholder="Type a keyword and press Enter, or add images..."
+                        placeholder="Type a keyword and press Enter (-word to exclude), or add images..."
                         value={textInput}
                         onChange={(e) => setTextInput(e.target.value)}
                         onKeyDown={handleKeyDown}
@@ -139,14 +191,43 @@ export function MultiInputSearchBar({ onSearch, loading = false }: MultiInputSea
                 </Button>
             </div>
 
+            {/* Search-wide Exclusions */}
+            {onExcludeTermsChange && (
+                <ExcludeTermsInput terms={excludeTerms} onChange={onExcludeTermsChange} disabled={loading} />
+            )}
+
+            {/* Image Region Selection */}
+            {imageInputs.length > 0 && (
+                <div className="flex flex-wrap gap-3 animate-in fade-in slide-in-from-top-1">
+                    {imageInputs.map((input) => (
+                        <ImageRegionPicker
+                            key={input.id}
+                            file={input.file!}
+                            regions={detectedRegions[input.id]?.regions ?? []}
+                            imageSize={detectedRegions[input.id]?.imageSize ?? null}
+                            selectedIds={(input.regions ?? []).map(r => r.id)}
+                            onChange={(ids) => selectRegions(input.id, ids)}
+                            onRemove={() => removeInput(input.id)}
+                            detecting={detecting.has(input.id)}
+                            disabled={loading}
+                        />
+                    ))}
+                </div>
+            )}
+
             {/* Chips Area */}
-            {inputs.length > 0 && (
+            {inputs.some(i => !(i.type === 'image' && i.file)) && (
                 <div className="flex flex-wrap gap-2 animate-in fade-in slide-in-from-top-1">
-                    {inputs.map((input) => (
+                    {inputs.filter(i => !(i.type === 'image' && i.file)).map((input) => (
                         <Badge key={input.id} variant="secondary" className="pl-2 pr-1 py-1 text-sm bg-background border-input border shadow-sm">
                             {input.type === 'image' && <ImageIcon className="h-3 w-3 mr-2 text-blue-500" />}
                             {input.type === 'text' && <span className="mr-2 text-muted-foreground">#</span>}
                             <span className="max-w-[150px] truncate">{input.value}</span>
+                            {input.excludeTerms?.map(term => (
+                                <span key={term} className="ml-1.5 text-xs text-muted-foreground line-through">
+                                    {term}
+                                </span>
+                            ))}
                             <Button
                                 variant="ghost"
                                 size="icon"
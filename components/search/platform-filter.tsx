@@ -1,6 +1,7 @@
 'use client';
 
 import { PlatformType } from '@/lib/platforms/types';
+import { OPT_IN_PLATFORMS, PLATFORM_LABELS, PLATFORMS } from '@/lib/platforms/metadata';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 
@@ -26,23 +27,21 @@ export function PlatformFilter({ selectedPlatforms, onChange }: PlatformFilterPr
                 Source Platforms:
             </span>
 
-            <div className="flex items-center space-x-2">
-                <Checkbox
-                    id="filter-alibaba"
-                    checked={selectedPlatforms.has('alibaba')}
-                    onCheckedChange={() => handleToggle('alibaba')}
-                />
-                <Label htmlFor="filter-alibaba" className="cursor-pointer font-medium">Alibaba</Label>
-            </div>
-
-            <div className="flex items-center space-x-2">
-                <Checkbox
-                    id="filter-mic"
-                    checked={selectedPlatforms.has('madeinchina')}
-                    onCheckedChange={() => handleToggle('madeinchina')}
-                />
-                <Label htmlFor="filter-mic" className="cursor-pointer font-medium">Made-in-China</Label>
-            </div>
+            {PLATFORMS.map(platform => (
+                <div key={platform} className="flex items-center space-x-2">
+                    <Checkbox
+                        id={`filter-${platform}`}
+                        checked={selectedPlatforms.has(platform)}
+                        onCheckedChange={() => handleToggle(platform)}
+                    />
+                    <Label htmlFor={`filter-${platform}`} className="cursor-pointer font-medium">
+                        {PLATFORM_LABELS[platform]}
+                        {OPT_IN_PLATFORMS.has(platform) && (
+                            <span className="ml-1.5 text-xs font-normal text-muted-foreground">beta</span>
+                        )}
+                    </Label>
+                </div>
+            ))}
         </div>
     );
 }
@@ -0,0 +1,35 @@
+'use client';
+
+import { PriceRange } from '@/lib/platforms/types';
+import { getDisplayPrice } from '@/lib/search/currency-service';
+import { useSearchPreferences } from '@/lib/search/preferences';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface PriceDisplayProps {
+    price: string | null;
+    priceRange: PriceRange | null;
+    className?: string;
+}
+
+/**
+ * Shows a price in the user's display currency; the original listing price
+ * is kept in a tooltip whenever a conversion happened.
+ */
+export function PriceDisplay({ price, priceRange, className }: PriceDisplayProps) {
+    const displayCurrency = useSearchPreferences((state) => state.displayCurrency);
+    const { display, original } = getDisplayPrice(price, priceRange, displayCurrency);
+
+    if (!display) return null;
+    if (!original) return <span className={className}>{display}</span>;
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>
+                <span className={`${className ?? ''} underline decoration-dotted underline-offset-2 cursor-help`}>
+                    {display}
+                </span>
+            </TooltipTrigger>
+            <TooltipContent>Original price: {original}</TooltipContent>
+        </Tooltip>
+    );
+}
@@ -1,6 +1,11 @@
 'use client';
 
-import { UnifiedSupplier } from '@/lib/platforms/types';
+import { ShippingEstimate, UnifiedSupplier } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
+import { SupplierScore } from '@/lib/search/ranking-service';
+import { formatPriceRange } from '@/lib/search/currency-service';
+import { Progress } from '@/components/ui/progress';
+import { PriceDisplay } from '@/components/search/price-display';
 import {
   Sheet,
   SheetContent,
@@ -22,6 +27,9 @@ import {
   TrendingUp,
   MessageSquare,
   Building2,
+  GitMerge,
+  Gauge,
+  Truck,
 } from 'lucide-react';
 import { useState } from 'react';
 
@@ -29,12 +37,14 @@ interface ProductDetailSheetProps {
   product: UnifiedSupplier | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  score?: SupplierScore;
 }
 
 export function ProductDetailSheet({
   product,
   open,
   onOpenChange,
+  score,
 }: ProductDetailSheetProps) {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
 
@@ -75,6 +85,11 @@ export function ProductDetailSheet({
     })
     : null;
 
+  // Quantity breaks and shipping are listed per product (DHgate)
+  const leadProduct = product.products[0];
+  const priceTiers = leadProduct?.priceTiers ?? [];
+  const shipping = leadProduct?.shipping ?? null;
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
@@ -149,8 +164,7 @@ export function ProductDetailSheet({
                   <div>
                     <p className="text-xs font-medium text-muted-foreground">Price</p>
                     <p className="text-lg font-bold">
-                      {product.price}
-                      {product.currency && ` ${product.currency}`}
+                      <PriceDisplay price={product.price} priceRange={product.priceRange} />
                     </p>
                   </div>
                 </div>
@@ -167,6 +181,68 @@ export function ProductDetailSheet({
             </div>
           )}
 
+          {/* Price Tiers and Shipping */}
+          {(priceTiers.length > 0 || shipping) && (
+            <div className="space-y-3 p-4 rounded-lg bg-muted/30">
+              {priceTiers.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold text-sm flex items-center gap-2">
+                    <DollarSign className="h-4 w-4" />
+                    Price Tiers
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {priceTiers.map((tier) => {
+                      const range = { min: tier.price, max: tier.price, currency: tier.currency, unit: null };
+                      return (
+                        <div key={tier.minQuantity} className="flex justify-between border-b border-border/50 pb-1 last:border-0">
+                          <span className="text-muted-foreground">
+                            {tier.maxQuantity === null
+                              ? `${tier.minQuantity}+`
+                              : tier.maxQuantity === tier.minQuantity ? tier.minQuantity : `${tier.minQuantity} - ${tier.maxQuantity}`}
+                          </span>
+                          <PriceDisplay price={formatPriceRange(range)} priceRange={range} className="font-medium" />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {shipping && (
+                <div className="flex items-start gap-2 text-sm">
+                  <Truck className="h-4 w-4 mt-0.5 text-primary" />
+                  <span>{describeShipping(shipping)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Relevance Score Breakdown */}
+          {score && (
+            <div className="space-y-3 p-4 rounded-lg bg-muted/30">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm flex items-center gap-2">
+                  <Gauge className="h-4 w-4" />
+                  Relevance Score
+                </h3>
+                <span className="text-lg font-bold">{score.total.toFixed(1)}</span>
+              </div>
+              <div className="space-y-2">
+                {score.breakdown.filter(f => f.weight > 0).map((factor) => (
+                  <div key={factor.factor} className="grid grid-cols-[140px_1fr_60px] items-center gap-3 text-xs">
+                    <span className="text-muted-foreground">
+                      {factor.label}
+                      <span className="opacity-70"> ×{factor.weight}</span>
+                    </span>
+                    <Progress value={factor.value * 100} className={factor.available ? '' : 'opacity-40'} />
+                    <span className="text-right font-mono">
+                      {factor.available ? `+${factor.contribution.toFixed(1)}` : 'n/a'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Product Description */}
           {product.description && (
             <div className="space-y-2">
@@ -231,6 +307,33 @@ export function ProductDetailSheet({
             </div>
           </div>
 
+          {/* Linked Storefronts (merged across platforms) */}
+          {product.storefronts && product.storefronts.length > 1 && (
+            <div className="space-y-3 p-4 rounded-lg bg-muted/30">
+              <h3 className="font-semibold text-sm flex items-center gap-2">
+                <GitMerge className="h-4 w-4" />
+                Linked Storefronts
+              </h3>
+              <div className="space-y-2">
+                {product.storefronts.map((storefront) => (
+                  <a
+                    key={`${storefront.platform}-${storefront.supplierId}`}
+                    href={storefront.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between gap-2 text-sm hover:text-primary"
+                  >
+                    <span>
+                      <span className="font-medium">{PLATFORM_LABELS[storefront.platform]}</span>
+                      <span className="text-muted-foreground"> · {storefront.name}</span>
+                    </span>
+                    <ExternalLink className="h-4 w-4 shrink-0" />
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Platform-Specific Data: Alibaba */}
           {alibabaData && (
             <div className="space-y-3 p-4 rounded-lg bg-muted/30">
@@ -351,7 +454,7 @@ export function ProductDetailSheet({
                 rel="noopener noreferrer"
                 className="flex items-center justify-center gap-2"
               >
-                View on {product.platform === 'alibaba' ? 'Alibaba' : 'Made-in-China'}
+                View on {PLATFORM_LABELS[product.platform]}
                 <ExternalLink className="h-4 w-4" />
               </a>
             </Button>
@@ -361,3 +464,18 @@ export function ProductDetailSheet({
     </Sheet>
   );
 }
+
+function describeShipping(shipping: ShippingEstimate): string {
+  const cost = shipping.free
+    ? 'Free shipping'
+    : shipping.cost !== null
+      ? `Shipping ${formatPriceRange({ min: shipping.cost, max: shipping.cost, currency: shipping.currency, unit: null })}`
+      : 'Shipping cost on request';
+  const method = shipping.method ? ` via ${shipping.method}` : '';
+  const days = shipping.minDays === null
+    ? ''
+    : shipping.minDays === shipping.maxDays || shipping.maxDays === null
+      ? `, delivery in ${shipping.minDays} days`
+      : `, delivery in ${shipping.minDays}-${shipping.maxDays} days`;
+  return `${cost}${method}${days}`;
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { UnifiedSupplier, SearchInput } from '@/lib/platforms/types';
+import { UnifiedSupplier, SearchInput, SupplierMergeProposal, MergeDecision } from '@/lib/platforms/types';
+import { getSupplierEntityKey } from '@/lib/search/entity-resolution';
 import { SupplierCard } from './supplier-card';
 import { Package } from 'lucide-react';
 
@@ -10,6 +11,9 @@ interface ProductGridProps {
   loading?: boolean;
   emptyMessage?: string;
   inputs?: SearchInput[];
+  // Pending merge proposals, keyed by the entity key of the supplier that shows the prompt
+  mergeSuggestions?: Map<string, { proposal: SupplierMergeProposal; counterpart: UnifiedSupplier }>;
+  onMergeDecision?: (proposalId: string, decision: MergeDecision) => void;
 }
 
 export function ProductGrid({
@@ -17,7 +21,9 @@ export function ProductGrid({
   onProductClick,
   loading = false,
   emptyMessage = "No products found. Try a different search query or adjust your filters.",
-  inputs = []
+  inputs = [],
+  mergeSuggestions,
+  onMergeDecision
 }: ProductGridProps) {
   // Loading skeleton
   if (loading) {
@@ -72,6 +78,8 @@ export function ProductGrid({
           // So we just call it with the supplier.
           onProductClick={(product) => onProductClick(supplier)}
           inputs={inputs}
+          mergeSuggestion={mergeSuggestions?.get(getSupplierEntityKey(supplier))}
+          onMergeDecision={onMergeDecision}
         />
       ))}
     </div>
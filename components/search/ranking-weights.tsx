@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_RANKING_WEIGHTS, RANKING_FACTORS, RankingFactor, RankingWeights as Weights } from '@/lib/search/ranking-service';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, RotateCcw, SlidersHorizontal } from 'lucide-react';
+
+interface RankingWeightsProps {
+    weights: Weights;
+    onChange: (weights: Weights) => void;
+}
+
+export function RankingWeights({ weights, onChange }: RankingWeightsProps) {
+    const [open, setOpen] = useState(false);
+
+    const updateWeight = (factor: RankingFactor, value: number) => {
+        onChange({ ...weights, [factor]: value });
+    };
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="p-4 border rounded-lg bg-card mb-6 shadow-sm">
+            <div className="flex items-center justify-between">
+                <CollapsibleTrigger asChild>
+                    <button className="flex items-center gap-2 font-semibold text-sm">
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Relevance Ranking
+                        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+                    </button>
+                </CollapsibleTrigger>
+                {open && (
+                    <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_RANKING_WEIGHTS)} className="h-8 px-2 text-xs">
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Reset Weights
+                    </Button>
+                )}
+            </div>
+
+            <CollapsibleContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mt-4">
+                    {RANKING_FACTORS.map(factor => (
+                        <div key={factor.id} className="space-y-2" title={factor.description}>
+                            <div className="flex justify-between">
+                                <Label className="text-xs text-muted-foreground uppercase tracking-wider">
+                                    {factor.label}
+                                </Label>
+                                <span className="text-xs font-mono">{weights[factor.id]}</span>
+                            </div>
+                            <Slider
+                                min={0}
+                                max={10}
+                                step={1}
+                                value={[weights[factor.id]]}
+                                onValueChange={(vals: number[]) => updateWeight(factor.id, vals[0])}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { SavedSearchDraft } from '@/lib/platforms/types';
+import { saveSearch } from '@/lib/search/saved-searches-client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookmarkPlus, Loader2 } from 'lucide-react';
+
+const INTERVAL_OPTIONS = [
+    { value: 1, label: 'Daily' },
+    { value: 7, label: 'Weekly' },
+    { value: 30, label: 'Monthly' },
+];
+
+interface SaveSearchFormProps {
+    // Everything but the name and schedule, taken from the current search
+    search: Omit<SavedSearchDraft, 'name' | 'intervalDays'>;
+    disabled?: boolean;
+}
+
+/**
+ * Save the current search so it is re-run on a schedule and its changes
+ * show up under Saved searches.
+ */
+export function SaveSearchForm({ search, disabled = false }: SaveSearchFormProps) {
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [intervalDays, setIntervalDays] = useState(7);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [savedName, setSavedName] = useState<string | null>(null);
+
+    const textInputs = search.inputs.filter(i => i.type === 'text');
+    const skippedImages = search.inputs.length - textInputs.length;
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const saved = await saveSearch({ ...search, name: name.trim(), intervalDays });
+            setSavedName(saved.name);
+            setOpen(false);
+            setName('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save search');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!open) {
+        return (
+            <div className="flex items-center gap-2 text-sm">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => { setOpen(true); setSavedName(null); }}
+                    disabled={disabled || textInputs.length === 0}
+                >
+                    <BookmarkPlus className="h-4 w-4 mr-1" />
+                    Save search
+                </Button>
+                {savedName && (
+                    <span className="text-muted-foreground">
+                        Saved &quot;{savedName}&quot;.{' '}
+                        <Link href="/saved-searches" className="underline">View saved searches</Link>
+                    </span>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Input
+                placeholder="Name, e.g. Weekly CNC lathes"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="h-8 w-56"
+                autoFocus
+            />
+            <Select value={String(intervalDays)} onValueChange={(val: string) => setIntervalDays(Number(val))}>
+                <SelectTrigger className="h-8 w-[120px]">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleSave} disabled={saving || !name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={saving}>
+                Cancel
+            </Button>
+            {skippedImages > 0 && (
+                <span className="text-xs text-muted-foreground">
+                    {skippedImages} image input{skippedImages > 1 ? 's are' : ' is'} not saved.
+                </span>
+            )}
+            {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+    );
+}
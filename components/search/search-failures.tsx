@@ -0,0 +1,49 @@
+'use client';
+
+import { SearchInput, SearchTaskStatus } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
+import { describeSearchError } from '@/lib/platforms/errors';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+
+interface SearchFailuresProps {
+  statuses: SearchTaskStatus[];
+  inputs: SearchInput[];
+}
+
+/**
+ * Lists (input, platform) searches that failed, so a blocked platform is not
+ * mistaken for "no suppliers found".
+ */
+export function SearchFailures({ statuses, inputs }: SearchFailuresProps) {
+  const failed = statuses.filter(s => s.state === 'failed');
+  if (failed.length === 0) return null;
+
+  const describeInput = (inputId: string) => {
+    const input = inputs.find(i => i.id === inputId);
+    if (!input) return 'input';
+    return input.type === 'image' ? 'image' : `"${input.value}"`;
+  };
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {failed.length === statuses.length
+          ? 'All platform searches failed'
+          : `${failed.length} of ${statuses.length} platform searches failed`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-0.5">
+          {failed.map(status => (
+            <li key={`${status.inputId}-${status.platform}`}>
+              <span className="font-medium">{PLATFORM_LABELS[status.platform]}</span>
+              {' for '}{describeInput(status.inputId)}: {status.error ? describeSearchError(status.error) : 'Unknown error'}
+              <span className="opacity-70"> ({(status.durationMs / 1000).toFixed(1)}s)</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
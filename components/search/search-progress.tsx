@@ -0,0 +1,63 @@
+'use client';
+
+import { SearchInput, SearchTaskStatus } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
+import { describeSearchError } from '@/lib/platforms/errors';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Loader2, MinusCircle, XCircle } from 'lucide-react';
+
+interface SearchProgressProps {
+  tasks: SearchTaskStatus[];
+  inputs: SearchInput[];
+}
+
+export function SearchProgress({ tasks, inputs }: SearchProgressProps) {
+  if (tasks.length === 0) return null;
+
+  const finished = tasks.filter(t => t.state !== 'running').length;
+
+  const describeInput = (inputId: string) => {
+    const input = inputs.find(i => i.id === inputId);
+    if (!input) return 'Input';
+    return input.type === 'image' ? 'Image' : input.value;
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg bg-card mb-6 shadow-sm animate-in fade-in">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Searching platforms...</span>
+        <span className="text-muted-foreground">{finished} / {tasks.length} complete</span>
+      </div>
+
+      <Progress value={(finished / tasks.length) * 100} />
+
+      <div className="flex flex-wrap gap-2">
+        {tasks.map(task => (
+          <Badge
+            key={`${task.inputId}-${task.platform}`}
+            variant="outline"
+            className="text-xs py-1 gap-1 bg-background"
+            title={task.error ? `${describeSearchError(task.error)}: ${task.error.message}` : undefined}
+          >
+            {task.state === 'running' && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            {task.state === 'done' && <CheckCircle2 className="h-3 w-3 text-green-600" />}
+            {task.state === 'failed' && <XCircle className="h-3 w-3 text-destructive" />}
+            {task.state === 'skipped' && <MinusCircle className="h-3 w-3 text-muted-foreground" />}
+            <span className="font-medium">{PLATFORM_LABELS[task.platform]}</span>
+            <span className="max-w-[120px] truncate text-muted-foreground">{describeInput(task.inputId)}</span>
+            {task.state === 'done' && (
+              <span className="text-muted-foreground">({task.resultCount})</span>
+            )}
+            {task.cache === 'hit' && (
+              <span className="text-muted-foreground">cached</span>
+            )}
+            {task.state === 'failed' && task.error && (
+              <span className="text-destructive">{describeSearchError(task.error)}</span>
+            )}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { SearchType } from '@/lib/platforms/types';
+import { Button } from '@/components/ui/button';
+import { Building2, Package } from 'lucide-react';
+
+interface SearchTypeToggleProps {
+    value: SearchType;
+    onChange: (value: SearchType) => void;
+    disabled?: boolean;
+}
+
+export function SearchTypeToggle({ value, onChange, disabled }: SearchTypeToggleProps) {
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+            <span className="text-sm font-medium text-muted-foreground mr-2">Search for:</span>
+            <Button
+                type="button"
+                size="sm"
+                variant={value === 'products' ? 'default' : 'outline'}
+                onClick={() => onChange('products')}
+                disabled={disabled}
+            >
+                <Package className="h-4 w-4 mr-1" />
+                Products
+            </Button>
+            <Button
+                type="button"
+                size="sm"
+                variant={value === 'suppliers' ? 'default' : 'outline'}
+                onClick={() => onChange('suppliers')}
+                disabled={disabled}
+            >
+                <Building2 className="h-4 w-4 mr-1" />
+                Suppliers
+            </Button>
+            {value === 'suppliers' && (
+                <span className="text-xs text-muted-foreground">
+                    Company directory search uses text inputs only; images are skipped.
+                </span>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { SORT_OPTIONS, SortOption } from '@/lib/search/sort-service';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUpDown } from 'lucide-react';
+
+interface SortSelectProps {
+    value: SortOption;
+    onChange: (value: SortOption) => void;
+}
+
+export function SortSelect({ value, onChange }: SortSelectProps) {
+    return (
+        <div className="flex items-center gap-2">
+            <Label htmlFor="sort-results" className="text-sm text-muted-foreground flex items-center gap-1 whitespace-nowrap">
+                <ArrowUpDown className="h-3 w-3" />
+                Sort by
+            </Label>
+            <Select value={value} onValueChange={(val: string) => onChange(val as SortOption)}>
+                <SelectTrigger id="sort-results" className="w-[200px]">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
@@ -1,25 +1,36 @@
 'use client';
 
-import { UnifiedSupplier, UnifiedProduct, SearchInput } from '@/lib/platforms/types';
+import { UnifiedSupplier, UnifiedProduct, SearchInput, SupplierMergeProposal, MergeDecision } from '@/lib/platforms/types';
+import { PLATFORM_LABELS } from '@/lib/platforms/metadata';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import Image from 'next/image';
-import { MapPin, ShieldCheck, Star, Link, Image as ImageIcon } from 'lucide-react';
+import { MapPin, ShieldCheck, Star, Link, Image as ImageIcon, GitMerge, Split, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { PriceDisplay } from '@/components/search/price-display';
 
 interface SupplierCardProps {
     supplier: UnifiedSupplier;
     onClick: () => void;
     onProductClick: (product: UnifiedProduct) => void;
     inputs?: SearchInput[];
+    mergeSuggestion?: { proposal: SupplierMergeProposal; counterpart: UnifiedSupplier };
+    onMergeDecision?: (proposalId: string, decision: MergeDecision) => void;
 }
 
-export function SupplierCard({ supplier, onClick, onProductClick, inputs = [] }: SupplierCardProps) {
+export function SupplierCard({
+    supplier,
+    onClick,
+    onProductClick,
+    inputs = [],
+    mergeSuggestion,
+    onMergeDecision
+}: SupplierCardProps) {
     // Determine matched inputs
     const matchedInputs = supplier.matchedInputIds?.map(id => inputs.find(i => i.id === id)).filter(Boolean) as SearchInput[] || [];
     // Platform badge styling
     const platformColor = supplier.platform === 'alibaba' ? 'default' : 'secondary';
-    const platformName = supplier.platform === 'madeinchina' ? 'Made-in-China' : 'Alibaba';
+    const platformName = PLATFORM_LABELS[supplier.platform];
 
     // Limit products displayed in the card preview
     const displayProducts = supplier.products?.slice(0, 4) || [];
@@ -33,9 +44,17 @@ export function SupplierCard({ supplier, onClick, onProductClick, inputs = [] }:
                 <div className="flex justify-between items-start">
                     <div className="space-y-1 flex-1 pointer-events-auto cursor-pointer" onClick={onClick}>
                         <div className="flex items-center gap-2 flex-wrap">
-                            <Badge variant={platformColor} className="text-xs shrink-0">
-                                {platformName}
-                            </Badge>
+                            {supplier.storefronts ? (
+                                supplier.storefronts.map(storefront => (
+                                    <Badge key={storefront.platform} variant="default" className="text-xs shrink-0">
+                                        {PLATFORM_LABELS[storefront.platform]}
+                                    </Badge>
+                                ))
+                            ) : (
+                                <Badge variant={platformColor} className="text-xs shrink-0">
+                                    {platformName}
+                                </Badge>
+                            )}
                             {supplier.supplier.verification && supplier.supplier.verification.length > 0 && (
                                 <div className="flex items-center gap-1 text-xs text-amber-600 font-medium bg-amber-50 px-2 py-0.5 rounded-full border border-amber-100">
                                     <ShieldCheck className="h-3 w-3" />
@@ -71,12 +90,72 @@ export function SupplierCard({ supplier, onClick, onProductClick, inputs = [] }:
                         )}
                     </div>
 
-                    <div className="shrink-0">
+                    <div className="shrink-0 flex flex-col gap-2">
                         <Button variant="outline" size="sm" onClick={onClick} className="text-xs h-8">
                             Details
                         </Button>
+                        {supplier.mergeProposalId && onMergeDecision && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-xs h-8"
+                                onClick={() => onMergeDecision(supplier.mergeProposalId!, 'rejected')}
+                                title="Show these storefronts as separate suppliers"
+                            >
+                                <Split className="h-3 w-3 mr-1" />
+                                Split
+                            </Button>
+                        )}
                     </div>
                 </div>
+
+                {/* Linked Storefronts (merged supplier) */}
+                {supplier.storefronts && (
+                    <div className="flex flex-wrap gap-3 text-xs">
+                        {supplier.storefronts.map(storefront => (
+                            <a
+                                key={`${storefront.platform}-${storefront.supplierId}`}
+                                href={storefront.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-primary hover:underline"
+                            >
+                                <ExternalLink className="h-3 w-3" />
+                                {PLATFORM_LABELS[storefront.platform]} storefront
+                            </a>
+                        ))}
+                    </div>
+                )}
+
+                {/* Proposed Merge */}
+                {mergeSuggestion && onMergeDecision && (
+                    <div className="flex items-center justify-between gap-3 rounded-md border border-dashed bg-background px-3 py-2 text-xs">
+                        <div className="flex items-center gap-2 min-w-0">
+                            <GitMerge className="h-3 w-3 shrink-0 text-primary" />
+                            <span className="truncate">
+                                Possibly the same company as <span className="font-medium">{mergeSuggestion.counterpart.name}</span> on {PLATFORM_LABELS[mergeSuggestion.counterpart.platform]}
+                                <span className="text-muted-foreground"> ({mergeSuggestion.proposal.reasons.join(', ')})</span>
+                            </span>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                            <Button
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => onMergeDecision(mergeSuggestion.proposal.id, 'accepted')}
+                            >
+                                Merge
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => onMergeDecision(mergeSuggestion.proposal.id, 'rejected')}
+                            >
+                                Dismiss
+                            </Button>
+                        </div>
+                    </div>
+                )}
             </CardHeader>
 
             <CardContent className="p-4">
@@ -113,7 +192,7 @@ export function SupplierCard({ supplier, onClick, onProductClick, inputs = [] }:
                                     </p>
                                     {product.price && (
                                         <p className="text-[10px] text-muted-foreground truncate font-mono">
-                                            {product.price}
+                                            <PriceDisplay price={product.price} priceRange={product.priceRange} />
                                         </p>
                                     )}
                                 </div>
@@ -6,7 +6,13 @@
  */
 
 import * as z from 'zod';
-import { UnifiedSupplier, SearchInput } from '@/lib/platforms/types';
+import { UnifiedSupplier, SearchInput, SearchTaskStatus, SearchType, PlatformType } from '@/lib/platforms/types';
+import { getPlatformAdapters } from '@/lib/platforms/registry';
+import { OPT_IN_PLATFORMS } from '@/lib/platforms/metadata';
+
+// Platforms the tool can search, taken from the adapter registry
+const searchablePlatforms = getPlatformAdapters();
+const optInLabels = searchablePlatforms.filter(a => OPT_IN_PLATFORMS.has(a.platform)).map(a => a.label);
 
 // ============================================================================
 // Search Tool
@@ -31,18 +37,42 @@ export const searchToolSchema = z.object({
   queries: z
     .array(z.string())
     .min(1, 'At least one query is required')
-    .describe('List of search query strings to execute.'),
+    .describe('List of search query strings to execute. Append -word (or -"two words") to a query to drop results mentioning it for that query only.'),
+
+  /**
+   * Exclusion terms applied to every query and attached image
+   *
+   * Examples:
+   * - ["spare part", "accessory"] when searching for whole machines
+   */
+  excludeTerms: z
+    .array(z.string())
+    .default([])
+    .describe('Terms to exclude from all results: products whose title or attributes mention any of them are dropped. Use for accessories, spare parts or other unwanted listing types.'),
 
   /**
    * Type of search to perform
    *
-   * - 'products': Search for products/items
-   * - 'suppliers': Search for suppliers/manufacturers
+   * - 'products': Search for products/items, grouped by supplier
+   * - 'suppliers': Search company directories for suppliers/manufacturers
+   *   (text queries only; attached images are ignored)
    */
   searchType: z
     .enum(['products', 'suppliers'])
     .default('products')
-    .describe('Type of search to perform: products or suppliers.'),
+    .describe('Type of search to perform: "products" finds product listings grouped by supplier; "suppliers" searches supplier/company directories directly and only uses the text queries.'),
+
+  /**
+   * Platforms to search; the default (non-opt-in) platforms when omitted
+   *
+   * Examples:
+   * - ["indiamart"] when the user only wants Indian suppliers
+   */
+  platforms: z
+    .array(z.enum(searchablePlatforms.map(a => a.platform) as [PlatformType, ...PlatformType[]]))
+    .optional()
+    .describe(`Platforms to search; omit to search the default set. Available: ${searchablePlatforms.map(a => `"${a.platform}" (${a.label})`).join(', ')}.`
+      + (optInLabels.length > 0 ? ` ${optInLabels.join(', ')} are in beta and only searched when listed.` : '')),
 });
 
 /**
@@ -66,14 +96,14 @@ export interface SearchToolOutput {
   /**
    * The type of search that was performed
    */
-  searchType: 'products' | 'suppliers';
+  searchType: SearchType;
 
   /**
    * Array of search results
    *
    * Each result is a UnifiedSupplier object containing:
    * - Product/supplier details
-   * - Platform information (Alibaba, Made-in-China)
+   * - Platform information (one of the registered platforms)
    * - Images, pricing, MOQ, etc.
    */
   results: UnifiedSupplier[];
@@ -89,6 +119,11 @@ export interface SearchToolOutput {
    * The actual input objects used for the search, including IDs and images.
    */
   inputs?: SearchInput[];
+
+  /**
+   * Per (input, platform) outcome, so partial failures are visible.
+   */
+  statuses?: SearchTaskStatus[];
 }
 
 /**
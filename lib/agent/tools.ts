@@ -1,11 +1,14 @@
 import { tool } from '@langchain/core/tools';
 import { searchToolSchema, searchToolMetadata, SearchToolOutput } from '@/contracts/tool.types';
 import { searchUnified } from '@/lib/search/unified-service';
-import { PlatformType, SearchInput } from '@/lib/platforms/types';
+import { SearchInput } from '@/lib/platforms/types';
+import { getDefaultPlatforms, getPlatformAdapter } from '@/lib/platforms/registry';
+import { describeSearchError } from '@/lib/platforms/errors';
+import { parseQueryExclusions } from '@/lib/search/exclusion-service';
 
 
 export const searchTool = tool(
-    async ({ queries, searchType }, config) => {
+    async ({ queries, searchType, excludeTerms, platforms }, config) => {
         try {
             console.log(`[Agent] Searching for queries: ${queries.join(', ')} (Type: ${searchType})`);
 
@@ -15,12 +18,15 @@ export const searchTool = tool(
 
             const inputs: SearchInput[] = [];
 
-            // Add text queries
+            // Add text queries, splitting off "-term" exclusions
             queries.forEach(q => {
+                const { value, excludeTerms: queryExcludeTerms } = parseQueryExclusions(q);
+                if (!value) return;
                 inputs.push({
                     id: `text-${Date.now()}-${Math.random()}`,
                     type: 'text',
-                    value: q
+                    value,
+                    ...(queryExcludeTerms.length > 0 && { excludeTerms: queryExcludeTerms })
                 });
             });
 
@@ -38,7 +44,7 @@ export const searchTool = tool(
             }
 
             // Execute unified search
-            const unifiedResults = await searchUnified(inputs, ['alibaba', 'madeinchina']);
+            const { results: unifiedResults, statuses } = await searchUnified(inputs, platforms?.length ? platforms : getDefaultPlatforms(), { searchType, excludeTerms });
             const count = unifiedResults.length;
 
             // Create output object matching contract
@@ -47,7 +53,8 @@ export const searchTool = tool(
                 searchType,
                 results: unifiedResults, // Return ALL results in artifact
                 count,
-                inputs // <--- Return the actual inputs used (with IDs) to the client
+                inputs, // <--- Return the actual inputs used (with IDs) to the client
+                statuses
             };
 
             // Enhanced Debug for User
@@ -55,7 +62,28 @@ export const searchTool = tool(
             inputs.forEach(i => console.log(`[Agent Tool Input] ID: ${i.id}, Type: ${i.type}, Value Length: ${i.value.length}`));
 
             // Minimal summary for the Agent/LLM
-            const summary = `Found ${count} suppliers for queries "${queries.join(', ')}" and ${attachments.length} images. The results have been rendered in the main grid.`;
+            let summary = `Found ${count} suppliers for queries "${queries.join(', ')}" and ${attachments.length} images. The results have been rendered in the main grid.`;
+
+            if (searchType === 'suppliers' && attachments.length > 0) {
+                summary += ` Supplier search only uses text queries, so the ${attachments.length} attached images were not searched.`;
+            }
+
+            const excludedCount = statuses.reduce((sum, s) => sum + (s.excludedCount ?? 0), 0);
+            if (excludedCount > 0) {
+                summary += ` ${excludedCount} results were dropped by exclusion terms.`;
+            }
+
+            // Tell the LLM which platform searches failed so it does not read them as "no results"
+            const failed = statuses.filter(s => s.state === 'failed');
+            if (failed.length > 0) {
+                const details = failed.map(s => {
+                    const input = inputs.find(i => i.id === s.inputId);
+                    const label = input?.type === 'text' ? `"${input.value}"` : 'image';
+                    const platform = getPlatformAdapter(s.platform)?.label ?? s.platform;
+                    return `${platform} for ${label} (${s.error ? describeSearchError(s.error) : 'unknown error'})`;
+                });
+                summary += ` ${failed.length} of ${statuses.length} platform searches failed: ${details.join('; ')}. Results may be incomplete.`;
+            }
 
             // Return content and artifact
             // The content goes to the LLM. The artifact goes to the client state.
@@ -0,0 +1,25 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { search1688Text, fetch1688ProductDetail, SEARCH_PAGE_SIZE } from './service';
+
+export const ali1688Adapter: PlatformAdapter = {
+  platform: '1688',
+  label: PLATFORM_LABELS['1688'],
+  capabilities: {
+    textSearch: true,
+    imageSearch: false,
+    supplierSearch: false,
+    productDetail: true,
+    pagination: true,
+  },
+  pageSize: SEARCH_PAGE_SIZE,
+
+  async searchText(query, page = 1) {
+    const { unifiedProducts, totalCount, hasMore } = await search1688Text(query, page);
+    return { products: unifiedProducts, totalCount, page, hasMore };
+  },
+
+  async getProductDetail(productUrl) {
+    return fetch1688ProductDetail(productUrl);
+  },
+};
@@ -0,0 +1,124 @@
+import * as cheerio from 'cheerio';
+import { Ali1688DetailData, Ali1688Offer, Ali1688ProductDetail, Ali1688SearchResponse } from './types';
+
+/**
+ * Parsers for 1688.com responses: the offer search JSON and the offer detail
+ * page. Detail pages embed their data as `window.__INIT_DATA`; when that is
+ * missing or unreadable the rendered DOM is used instead.
+ */
+
+export function parse1688SearchResponse(body: Ali1688SearchResponse): { offers: Ali1688Offer[]; totalCount: number | undefined } {
+    const data = body?.data?.data;
+    const offers = (data?.offerList ?? []).filter(offer => offer && offer.id !== undefined);
+    const totalCount = data?.totalCount !== undefined ? Number(data.totalCount) : undefined;
+
+    return {
+        offers,
+        totalCount: Number.isFinite(totalCount) ? totalCount : undefined,
+    };
+}
+
+export function parse1688ProductDetail(html: string, url: string): Ali1688ProductDetail | null {
+    const offerId = url.match(/offer\/(\d+)\.html/)?.[1] ?? '';
+    return parseInitData(html, offerId) ?? parseDetailDom(html, offerId);
+}
+
+function parseInitData(html: string, offerId: string): Ali1688ProductDetail | null {
+    const match = html.match(/window\.__INIT_DATA\s*=\s*({[\s\S]*?})(?=\s*;?\s*<\/script>)/);
+    if (!match) return null;
+
+    let initData: Ali1688DetailData;
+    try {
+        initData = JSON.parse(match[1]);
+    } catch {
+        return null;
+    }
+
+    const global = initData.globalData;
+    const title = global?.tempModel?.offerTitle?.trim();
+    if (!title) return null;
+
+    const orderParam = global?.orderParamModel?.orderParam;
+    const priceTiers = (orderParam?.skuParam?.skuRangePrices ?? [])
+        .map(tier => ({ beginAmount: Number(tier.beginAmount), price: String(tier.price ?? '') }))
+        .filter(tier => Number.isFinite(tier.beginAmount) && tier.price)
+        .sort((a, b) => a.beginAmount - b.beginAmount);
+    const beginAmount = Number(orderParam?.beginNum);
+
+    return {
+        offerId: String(global?.tempModel?.offerId ?? offerId),
+        title,
+        images: (global?.images ?? [])
+            .map(image => image.fullPathImageURI || image.imageURI || '')
+            .filter(Boolean),
+        priceTiers,
+        unit: global?.tempModel?.offerUnit || null,
+        beginAmount: Number.isFinite(beginAmount) && beginAmount > 0 ? beginAmount : null,
+        companyName: global?.tempModel?.companyName || null,
+        sellerUrl: global?.offerBaseInfo?.sellerWinportUrl || null,
+        attributes: extractInitDataAttributes(initData),
+        source: 'init-data',
+    };
+}
+
+/**
+ * The attribute table is one of the page components: an array of {name, value}.
+ */
+function extractInitDataAttributes(initData: Ali1688DetailData): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const component = Object.values(initData.data ?? {})
+        .find(c => /attribute/i.test(c?.componentType ?? '') && Array.isArray(c.data));
+
+    ((component?.data ?? []) as { name?: string; value?: string }[]).forEach(item => {
+        if (item?.name && item.value) attributes[item.name.trim()] = String(item.value).trim();
+    });
+
+    return attributes;
+}
+
+function parseDetailDom(html: string, offerId: string): Ali1688ProductDetail | null {
+    const $ = cheerio.load(html);
+
+    const title = $('.title-text').first().text().trim() ||
+        $('h1').first().text().trim() ||
+        $('meta[property="og:title"]').attr('content')?.trim() ||
+        '';
+    if (!title) return null;
+
+    const images: string[] = [];
+    $('.detail-gallery-img, .img-list-wrapper img').each((_, el) => {
+        const src = $(el).attr('src') || $(el).attr('data-lazyload-src');
+        if (src && !images.includes(src)) images.push(src);
+    });
+
+    const priceTiers: { beginAmount: number; price: string }[] = [];
+    $('.price-box .price-comp, .step-price-item').each((_, el) => {
+        const $item = $(el);
+        const price = $item.find('.price-info, .price-text').first().text().replace(/[^\d.]/g, '');
+        const beginAmount = Number($item.find('.price-num, .step-amount').first().text().replace(/[^\d]/g, ''));
+        if (price && Number.isFinite(beginAmount)) priceTiers.push({ beginAmount, price });
+    });
+    priceTiers.sort((a, b) => a.beginAmount - b.beginAmount);
+
+    const attributes: Record<string, string> = {};
+    $('.offer-attr-item, .od-pc-attribute .field').each((_, el) => {
+        const name = $(el).find('.offer-attr-item-name, .field-name').text().trim();
+        const value = $(el).find('.offer-attr-item-value, .field-value').text().trim();
+        if (name && value) attributes[name] = value;
+    });
+
+    const $company = $('.company-name a, a.shop-company-name').first();
+
+    return {
+        offerId,
+        title,
+        images,
+        priceTiers,
+        unit: $('.unit-text').first().text().trim() || null,
+        beginAmount: priceTiers[0]?.beginAmount ?? null,
+        companyName: $company.text().trim() || null,
+        sellerUrl: $company.attr('href') || null,
+        attributes,
+        source: 'dom',
+    };
+}
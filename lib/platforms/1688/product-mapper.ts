@@ -0,0 +1,138 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { UnifiedProduct } from '../types';
+import { Ali1688Offer, Ali1688ProductDetail } from './types';
+
+const PLATFORM = '1688' as const;
+
+/**
+ * Map one offer from the 1688 offer search JSON.
+ * 1688 prices are bare CNY numbers ("12.50"), so the display price gets a
+ * "¥" prefix and the currency is always CNY.
+ */
+export function map1688ToUnifiedProduct(offer: Ali1688Offer): UnifiedProduct {
+    const id = String(offer.id ?? 'unknown');
+    const info = offer.information ?? {};
+    const offerPrice = offer.tradePrice?.offerPrice;
+
+    const tierPrices = (offerPrice?.quantityPrices ?? []).map(tier => tier.valueString);
+    const price = formatCnyPrice([...tierPrices, offerPrice?.valueString, offerPrice?.priceInfo?.price]);
+    const priceRange = parsePrice(price);
+
+    const moq = formatMoq(offer.tradeQuantity?.quantityBegin, info.unit);
+    const image = normalizeUrl(offer.image?.imgUrl || offer.image?.imgUrlOf290x290 || '');
+
+    return {
+        id,
+        platform: PLATFORM,
+        title: (info.subject || info.simpleSubject || '').trim() || 'Untitled Product',
+        image,
+        images: image ? [image] : [],
+        price,
+        currency: 'CNY',
+        priceRange: priceRange && { ...priceRange, currency: 'CNY' },
+        moq,
+        moqQuantity: parseMoq(moq),
+        productUrl: normalizeUrl(info.detailUrl || '') || `https://detail.1688.com/offer/${id}.html`,
+        attributes: buildOfferAttributes(offer),
+        supplier: {
+            id: offer.company?.memberId || offer.company?.name || 'unknown',
+            name: offer.company?.name || 'Unknown Supplier',
+            url: normalizeUrl(offer.company?.url || ''),
+            location: formatLocation(offer.company?.city, offer.company?.province),
+            badges: buildSupplierBadges(offer),
+        },
+        platformSpecific: offer as Record<string, unknown>,
+    };
+}
+
+/**
+ * Map a parsed detail page. Quantity tiers become the price range.
+ */
+export function map1688DetailToUnifiedProduct(detail: Ali1688ProductDetail, productUrl: string): UnifiedProduct {
+    const price = formatCnyPrice(detail.priceTiers.map(tier => tier.price));
+    const priceRange = parsePrice(price);
+    const moq = formatMoq(detail.beginAmount ?? detail.priceTiers[0]?.beginAmount, detail.unit ?? undefined);
+    const images = Array.from(new Set(detail.images.map(normalizeUrl).filter(Boolean)));
+
+    return {
+        id: detail.offerId || 'unknown',
+        platform: PLATFORM,
+        title: detail.title || 'Untitled Product',
+        image: images[0] ?? '',
+        images,
+        price,
+        currency: 'CNY',
+        priceRange: priceRange && { ...priceRange, currency: 'CNY' },
+        moq,
+        moqQuantity: parseMoq(moq),
+        productUrl,
+        attributes: detail.attributes,
+        supplier: {
+            id: detail.companyName || 'unknown',
+            name: detail.companyName || 'Unknown Supplier',
+            url: normalizeUrl(detail.sellerUrl || ''),
+            badges: [],
+        },
+        platformSpecific: { ...detail },
+    };
+}
+
+/**
+ * "¥8.80-12.50" from the lowest and highest of the given CNY amounts.
+ */
+function formatCnyPrice(values: (string | undefined)[]): string | null {
+    const amounts = values
+        .map(value => Number(String(value ?? '').replace(/[^\d.]/g, '')))
+        .filter(value => Number.isFinite(value) && value > 0);
+    if (amounts.length === 0) return null;
+
+    const min = Math.min(...amounts);
+    const max = Math.max(...amounts);
+    return min === max ? `¥${min.toFixed(2)}` : `¥${min.toFixed(2)}-${max.toFixed(2)}`;
+}
+
+function formatMoq(quantity: string | number | null | undefined, unit: string | undefined): string | null {
+    if (quantity === null || quantity === undefined || quantity === '') return null;
+    return `≥${quantity}${unit ?? ''}`;
+}
+
+/**
+ * Seller programs shown on 1688 offer cards.
+ */
+function buildSupplierBadges(offer: Ali1688Offer): string[] {
+    const badges: string[] = [];
+    const tpYears = Number(offer.tpYear);
+
+    if (Number.isFinite(tpYears) && tpYears > 0) badges.push(`TrustPass ${tpYears} yrs`);
+    else if (offer.tpMember) badges.push('TrustPass');
+    if (offer.isSuperFactory) badges.push('Super Factory');
+    else if (offer.isFactory) badges.push('Factory');
+    if (offer.factoryInspection) badges.push('Factory Inspected');
+
+    return badges;
+}
+
+function buildOfferAttributes(offer: Ali1688Offer): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const sold = offer.tradeQuantity?.saleQuantity;
+    const services = (offer.serviceTags ?? []).map(tag => tag.text?.trim()).filter(Boolean);
+
+    if (sold !== undefined && sold !== '') attributes['Sold'] = String(sold);
+    if (offer.company?.shopRepurchaseRate) attributes['Repurchase rate'] = offer.company.shopRepurchaseRate;
+    if (offer.isOnePsale) attributes['Dropshipping'] = 'Yes';
+    if (services.length > 0) attributes['Services'] = services.join(', ');
+
+    return attributes;
+}
+
+function formatLocation(city?: string, province?: string): string | undefined {
+    if (city && province && city !== province) return `${city}, ${province}`;
+    return city || province || undefined;
+}
+
+function normalizeUrl(url: string): string {
+    if (!url) return '';
+    if (url.startsWith('//')) return 'https:' + url;
+    return url;
+}
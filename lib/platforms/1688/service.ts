@@ -0,0 +1,132 @@
+import { createProxyAgent } from '@/lib/proxy';
+import { map1688DetailToUnifiedProduct, map1688ToUnifiedProduct } from '@/lib/platforms/1688/product-mapper';
+import { parse1688ProductDetail, parse1688SearchResponse } from '@/lib/platforms/1688/parser';
+import { Ali1688SearchResponse } from '@/lib/platforms/1688/types';
+import { UnifiedProduct } from '@/lib/platforms/types';
+import { PlatformSearchError, httpError, looksLikeCaptcha } from '@/lib/platforms/errors';
+
+export interface Ali1688SearchResult {
+    unifiedProducts: UnifiedProduct[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 60;
+
+const HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+    Referer: 'https://s.1688.com/',
+};
+
+/**
+ * Keyword search through the offer search JSON service used by s.1688.com.
+ */
+export async function search1688Text(query: string, page: number = 1): Promise<Ali1688SearchResult> {
+    if (!query || !query.trim()) {
+        return { unifiedProducts: [], totalCount: 0, hasMore: false };
+    }
+
+    const params = new URLSearchParams({
+        keywords: query.trim(),
+        charset: 'utf8',
+        beginPage: String(page),
+        pageSize: String(SEARCH_PAGE_SIZE),
+    });
+    const url = `https://search.1688.com/service/marketOfferResultViewService?${params.toString()}`;
+
+    const agent = createProxyAgent();
+    const response = await fetch(url, {
+        headers: { ...HEADERS, Accept: 'application/json' },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError('1688', response);
+    }
+
+    const body = await response.text();
+    let payload: Ali1688SearchResponse;
+    try {
+        payload = JSON.parse(body);
+    } catch {
+        // Anti-bot pages come back as HTML with a 200 status
+        if (looksLikeCaptcha(body)) {
+            throw new PlatformSearchError('captcha', '1688 returned a captcha page');
+        }
+        throw new PlatformSearchError('parse', 'Failed to parse 1688 search response');
+    }
+
+    const { offers, totalCount } = parse1688SearchResponse(payload);
+    if (offers.length === 0 && looksLikeCaptcha(body)) {
+        throw new PlatformSearchError('captcha', '1688 returned a captcha challenge');
+    }
+
+    const hasMore = typeof totalCount === 'number'
+        ? page * SEARCH_PAGE_SIZE < totalCount
+        : offers.length === SEARCH_PAGE_SIZE;
+
+    return {
+        unifiedProducts: offers.map(map1688ToUnifiedProduct),
+        totalCount,
+        hasMore,
+    };
+}
+
+/**
+ * Fetch and parse one offer page (detail.1688.com/offer/<id>.html).
+ */
+export async function fetch1688ProductDetail(productUrl: string): Promise<UnifiedProduct> {
+    const offerId = parse1688OfferId(productUrl);
+    if (!offerId) {
+        throw new Error('Not a 1688 offer URL or offer ID');
+    }
+    const url = `https://detail.1688.com/offer/${offerId}.html`;
+
+    const agent = createProxyAgent();
+    const response = await fetch(url, {
+        headers: { ...HEADERS, Accept: 'text/html,application/xhtml+xml' },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError('1688 product detail', response);
+    }
+
+    const html = await response.text();
+    const detail = parse1688ProductDetail(html, url);
+
+    if (!detail) {
+        if (looksLikeCaptcha(html)) {
+            throw new PlatformSearchError('captcha', '1688 returned a captcha page');
+        }
+        throw new PlatformSearchError('parse', 'Failed to extract 1688 product detail');
+    }
+
+    return map1688DetailToUnifiedProduct(detail, url);
+}
+
+/**
+ * Offer ID from a bare numeric ID or a detail.1688.com/offer/<id>.html URL
+ * (protocol-relative allowed). Anything else returns null, so the detail
+ * fetch can never be pointed at another host.
+ */
+export function parse1688OfferId(productUrl: string): string | null {
+    const trimmed = productUrl.trim();
+    if (/^\d+$/.test(trimmed)) return trimmed;
+
+    let url: URL;
+    try {
+        url = new URL(trimmed.startsWith('//') ? 'https:' + trimmed : trimmed);
+    } catch {
+        return null;
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (url.hostname !== 'detail.1688.com') return null;
+    return url.pathname.match(/^\/offer\/(\d+)\.html$/)?.[1] ?? null;
+}
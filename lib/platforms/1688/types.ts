@@ -0,0 +1,107 @@
+/**
+ * Raw shapes of 1688.com responses. Only the fields the mappers read are
+ * typed; everything else is kept untouched in `platformSpecific`.
+ */
+
+// marketOfferResultViewService: { data: { data: { offerList, totalCount } } }
+export interface Ali1688SearchResponse {
+  data?: {
+    data?: {
+      offerList?: Ali1688Offer[];
+      totalCount?: number | string;
+      pageCount?: number | string;
+    };
+  };
+}
+
+export interface Ali1688Offer {
+  id?: string | number;
+  information?: {
+    subject?: string;
+    simpleSubject?: string;
+    detailUrl?: string;
+    unit?: string;
+    brief?: string;
+  };
+  image?: {
+    imgUrl?: string;
+    imgUrlOf290x290?: string;
+  };
+  tradePrice?: {
+    offerPrice?: {
+      valueString?: string;
+      priceInfo?: { price?: string };
+      quantityPrices?: { quantity?: string; valueString?: string }[];
+    };
+  };
+  tradeQuantity?: {
+    quantityBegin?: string | number;
+    saleQuantity?: string | number;
+    gmvValue30DaysCut?: string;
+  };
+  company?: {
+    name?: string;
+    memberId?: string;
+    url?: string;
+    province?: string;
+    city?: string;
+    shopRepurchaseRate?: string;
+  };
+  // Seller programs: TrustPass years, Super Factory, verified manufacturer
+  tpMember?: boolean;
+  tpYear?: number | string;
+  isSuperFactory?: boolean;
+  isFactory?: boolean;
+  factoryInspection?: boolean;
+  isOnePsale?: boolean;
+  serviceTags?: { text?: string }[];
+}
+
+// window.__INIT_DATA on detail.1688.com/offer/<id>.html
+export interface Ali1688DetailData {
+  globalData?: {
+    tempModel?: {
+      offerId?: string | number;
+      offerTitle?: string;
+      companyName?: string;
+      sellerLoginId?: string;
+      sellerMemberId?: string;
+      offerUnit?: string;
+      saledCount?: string | number;
+    };
+    images?: { fullPathImageURI?: string; imageURI?: string }[];
+    orderParamModel?: {
+      orderParam?: {
+        beginNum?: number | string;
+        skuParam?: {
+          skuRangePrices?: { beginAmount?: number | string; price?: string }[];
+        };
+      };
+    };
+    offerBaseInfo?: {
+      sellerWinportUrl?: string;
+    };
+  };
+  data?: Record<string, {
+    componentType?: string;
+    data?: unknown;
+  }>;
+}
+
+/**
+ * Product detail normalized from either `__INIT_DATA` or the rendered DOM,
+ * before it is mapped to a UnifiedProduct.
+ */
+export interface Ali1688ProductDetail {
+  offerId: string;
+  title: string;
+  images: string[];
+  // Quantity tiers, lowest quantity first; prices are plain CNY numbers
+  priceTiers: { beginAmount: number; price: string }[];
+  unit: string | null;
+  beginAmount: number | null;
+  companyName: string | null;
+  sellerUrl: string | null;
+  attributes: Record<string, string>;
+  source: 'init-data' | 'dom';
+}
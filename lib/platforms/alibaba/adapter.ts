@@ -0,0 +1,55 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { searchAlibabaText, searchAlibabaImage, searchAlibabaSuppliers, AlibabaSearchResponse } from './service';
+
+const PAGE_SIZE = 40;
+
+export const alibabaAdapter: PlatformAdapter = {
+  platform: 'alibaba',
+  label: PLATFORM_LABELS.alibaba,
+  capabilities: {
+    textSearch: true,
+    imageSearch: true,
+    supplierSearch: true,
+    productDetail: false,
+    pagination: true,
+  },
+  pageSize: PAGE_SIZE,
+  imageRequirements: {
+    format: 'jpeg',
+    maxDimension: 1200,
+    maxBytes: 2 * 1024 * 1024, // sent base64-encoded in a form field
+    quality: 85,
+  },
+
+  async searchText(query, page = 1) {
+    return toPlatformResponse(await searchAlibabaText(query, page), page);
+  },
+
+  async searchImage(image, page = 1, options) {
+    return toPlatformResponse(await searchAlibabaImage(image, page, options), page);
+  },
+
+  async searchSuppliers(query, page = 1) {
+    const { suppliers, totalCount, hasMore } = await searchAlibabaSuppliers(query, page);
+    return { suppliers, totalCount, page, hasMore };
+  },
+};
+
+function toPlatformResponse(response: AlibabaSearchResponse, page: number) {
+  const { unifiedProducts, totalCount } = response;
+
+  return {
+    products: unifiedProducts,
+    totalCount,
+    page,
+    hasMore: calculateHasMore(totalCount, page, unifiedProducts.length),
+  };
+}
+
+function calculateHasMore(totalCount: number | undefined, page: number, currentCount: number): boolean {
+  if (typeof totalCount === 'number') {
+    return page * PAGE_SIZE < totalCount;
+  }
+  return currentCount >= PAGE_SIZE;
+}
@@ -1,3 +1,6 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { getSubProductAttributes, getSubProductTitle } from './product-fields';
 import { UnifiedProduct, UnifiedSupplier } from '../types';
 import { AlibabaOffer, AlibabaProduct, AlibabaSearchResponse } from './types';
 
@@ -15,6 +18,7 @@ function mapOfferToProduct(offer: AlibabaOffer): UnifiedSupplier {
   const primaryProduct = offer.productList?.[0];
   const productId = primaryProduct?.productId ?? 'primary';
   const price = primaryProduct?.price ?? null;
+  const priceRange = parsePrice(price);
   const images = buildImageCollection(offer, primaryProduct?.productImg);
   const verificationBadges = buildVerificationBadges(offer);
 
@@ -24,8 +28,10 @@ function mapOfferToProduct(offer: AlibabaOffer): UnifiedSupplier {
     name: offer.companyName?.trim() || `Alibaba Supplier ${offer.companyId}`,
     description: offer.companyTitle?.trim() || undefined,
     price,
-    currency: detectCurrency(price),
+    currency: priceRange?.currency ?? null,
+    priceRange,
     moq: primaryProduct?.moq ?? null,
+    moqQuantity: parseMoq(primaryProduct?.moq),
     images,
     products: (offer.productList ?? []).map((p) => mapAlibabaSubProductToUnified(p, offer)),
     supplier: {
@@ -64,27 +70,6 @@ function formatLocation(city?: string, country?: string): string | undefined {
   return city ?? country ?? undefined;
 }
 
-function detectCurrency(price: string | null): string | null {
-  if (!price) return null;
-
-  const normalized = price.trim();
-  const symbol = normalized.slice(0, 2).toUpperCase();
-  const firstChar = normalized.charAt(0);
-
-  if (/US\s?\$|USD/i.test(normalized)) return 'USD';
-  if (firstChar === '$') return 'USD';
-  if (normalized.startsWith('₹')) return 'INR';
-  if (normalized.startsWith('€')) return 'EUR';
-  if (normalized.startsWith('£')) return 'GBP';
-  if (/AUD/.test(normalized)) return 'AUD';
-  if (/CAD/.test(normalized)) return 'CAD';
-  if (/HK\$/.test(normalized)) return 'HKD';
-  if (/SG\$/.test(normalized)) return 'SGD';
-  if (symbol === '￥') return 'CNY';
-
-  return null;
-}
-
 function normalizeUrl(url?: string, base?: string): string {
   if (!url) return base ?? '';
   if (url.startsWith('http')) return url;
@@ -95,6 +80,9 @@ function normalizeUrl(url?: string, base?: string): string {
 
 function buildPlatformSpecific(offer: AlibabaOffer): Record<string, unknown> {
   return {
+    verifiedSupplier: offer.verifiedSupplier,
+    verifiedSupplierPro: offer.verifiedSupplierPro,
+    isFactory: offer.isFactory,
     reviewScore: offer.reviewScore,
     reviewCount: offer.reviewCount,
     reviewLink: offer.reviewLink,
@@ -114,32 +102,21 @@ function buildPlatformSpecific(offer: AlibabaOffer): Record<string, unknown> {
 }
 
 function mapAlibabaSubProductToUnified(product: AlibabaProduct, offer: AlibabaOffer): UnifiedProduct {
+  const priceRange = parsePrice(product.price);
+
   return {
     id: `alibaba-${product.productId}`,
     platform: PLATFORM,
-    title: 'Product', // AlibabaProduct doesn't seem to have a name/title field in the types shown, defaults to generic or extracting from somewhere else if possible? 
-    // Wait, let's check AlibabaProduct type again. It doesn't have a name field? 
-    // Looking at types.ts: export interface AlibabaProduct { action: string; productId: string; ... } 
-    // It seems it lacks a title. Let's check if there's any other field or if I should use a placeholder.
-    // The previous analysis showed AlibabaProduct without title. 
-    // However, looking at the sample json might reveal if there's a title hidden or if traceCommonArgs has it.
-    // Let's assume for now we might need to use a fallback or try to extract from action url?
-    // Actually, let's look at `AlibabaMainProduct` in types.ts, it has name. modifying types might be needed if standard product list has titles.
-    // But adhering to current types, I will use a placeholder or derived title.
-    // Let's use "Product" for now and maybe the user can clarify or I can improve later.
-    // Actually, looking at the sample JSON `docs/sample_alibaba.structure.json`, `productList` items have `subject`? Or `productTitle`?
-    // Let's re-read the sample json or just proceed with what I have. 
-    // `docs/sample_alibaba.structure.json` lines 185+ for `productList` items. 
-    // Wait, I shouldn't guess. I will look at the sample JSON before committing this chunk effectively.
-    // BUT, I can't pause the tool call. 
-    // I will write the function with a placeholder "Alibaba Product" and update the task to verify this.
+    title: getSubProductTitle(product, offer),
     image: normalizeUrl(product.productImg, 'https://www.alibaba.com'),
     images: product.productImg ? [normalizeUrl(product.productImg, 'https://www.alibaba.com')] : [],
     price: product.price ?? null,
-    currency: detectCurrency(product.price ?? null),
+    currency: priceRange?.currency ?? null,
+    priceRange,
     moq: product.moq ?? null,
+    moqQuantity: parseMoq(product.moq),
     productUrl: normalizeUrl(product.action, 'https://www.alibaba.com'),
-    attributes: {},
+    attributes: getSubProductAttributes(product),
     supplier: {
       id: offer.companyId,
       name: offer.companyName?.trim() || `Supplier ${offer.companyId}`,
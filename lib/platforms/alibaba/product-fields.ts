@@ -0,0 +1,120 @@
+import { AlibabaOffer, AlibabaProduct } from './types';
+
+/**
+ * Field extraction shared by the Alibaba supplier and product mappers.
+ * `productList` items have no title field, so the title comes from the
+ * sponsored-listing copy when the offer has one, then from the product URL slug.
+ */
+
+/**
+ * Strip the badge markup Alibaba embeds in titles
+ * ("<img src='...'></img><span> </span>Living Room Sofa") and collapse whitespace.
+ */
+export function cleanAlibabaTitle(title: string | null | undefined): string {
+    if (!title) return '';
+    return title
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * "//www.alibaba.com/product-detail/Modern-Eco-Friendly-Modular-Couch-Sofa_1601496778544.html"
+ * -> "Modern Eco Friendly Modular Couch Sofa". Alibaba truncates the slug, so
+ * this is a fallback only.
+ */
+export function titleFromProductUrl(url: string | null | undefined): string {
+    if (!url) return '';
+    const match = url.match(/\/product-detail\/([^/?#]+?)_\d+\.html/);
+    if (!match) return '';
+
+    let slug = match[1];
+    try {
+        slug = decodeURIComponent(slug);
+    } catch { }
+
+    return slug.replace(/-+/g, ' ').trim();
+}
+
+export function getSubProductTitle(product: AlibabaProduct, offer: AlibabaOffer): string {
+    const creative = offer.adInfo?.creativeInfo;
+    const creativeProducts = [creative?.mainProduct, ...(creative?.products ?? [])];
+    const match = creativeProducts.find(p => p && String(p.id) === String(product.productId));
+
+    return cleanAlibabaTitle(match?.subject || match?.title)
+        || titleFromProductUrl(product.action)
+        || `Alibaba product ${product.productId}`;
+}
+
+/**
+ * Attributes present on `productList` items, labelled for display. Only product
+ * specs belong here; category IDs and ad/trace flags stay in `platformSpecific`
+ * so they are neither shown as specs nor matched by exclusion terms.
+ */
+export function getSubProductAttributes(product: AlibabaProduct): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const trace = product.traceCommonArgs;
+
+    if (trace?.is_customizable !== undefined) attributes['Customizable'] = yesNo(trace.is_customizable);
+
+    return attributes;
+}
+
+/**
+ * Attributes present on `_offer_list` and imageTextSearch offers.
+ */
+export function getOfferAttributes(offer: Record<string, unknown>): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    const scalar: [string, string][] = [
+        ['reviewScore', 'Review Score'],
+        ['reviewCount', 'Review Count'],
+        ['productScore', 'Product Score'],
+        ['shippingScore', 'Shipping Score'],
+        ['supplierServiceScore', 'Supplier Service Score'],
+        ['displayStarLevel', 'Star Level'],
+        ['goldSupplierYears', 'Gold Supplier'],
+        ['countryCode', 'Country'],
+    ];
+    scalar.forEach(([key, label]) => {
+        const value = offer[key];
+        if (value !== undefined && value !== null && value !== '') attributes[label] = String(value);
+    });
+
+    const certifications = toLabels(offer.certifications);
+    if (certifications.length) attributes['Certifications'] = certifications.join(', ');
+
+    const sellingPoints = toLabels(offer.pcLoopSellingPoints).length
+        ? toLabels(offer.pcLoopSellingPoints)
+        : toLabels(offer.loopSellingPoints);
+    if (sellingPoints.length) attributes['Selling Points'] = sellingPoints.join(', ');
+
+    if (offer.tradeProduct) attributes['Trade Assurance'] = 'Yes';
+
+    return attributes;
+}
+
+function yesNo(value: unknown): string {
+    return value === true || value === 'true' ? 'Yes' : 'No';
+}
+
+/**
+ * Certification and selling-point lists are strings or objects with a name/text field.
+ */
+function toLabels(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .map(item => {
+            if (typeof item === 'string') return cleanAlibabaTitle(item);
+            if (item && typeof item === 'object') {
+                const record = item as Record<string, unknown>;
+                const label = record.name ?? record.text ?? record.title ?? record.value;
+                return typeof label === 'string' ? cleanAlibabaTitle(label) : '';
+            }
+            return '';
+        })
+        .filter(Boolean);
+}
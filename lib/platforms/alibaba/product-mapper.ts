@@ -1,3 +1,6 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { cleanAlibabaTitle, getOfferAttributes } from './product-fields';
 import { UnifiedProduct } from '../types';
 
 export function mapAlibabaToUnifiedProduct(rawOffer: any): UnifiedProduct {
@@ -12,10 +15,11 @@ export function mapAlibabaToUnifiedProduct(rawOffer: any): UnifiedProduct {
     const id = String(product.id || product.productId || product.adInfo?.creativeInfo?.mainProduct?.[0]?.id || 'unknown');
 
     // Extract Title
-    const title = product.title || product.adInfo?.adTitleText || product.adInfo?.creativeInfo?.adTitleText || 'Untitled Product';
+    const title = cleanAlibabaTitle(product.title || product.adInfo?.adTitleText || product.adInfo?.creativeInfo?.adTitleText) || 'Untitled Product';
 
     // Extract Price
     const price = product.price || product.promotionPrice || product.adInfo?.creativeInfo?.mainProduct?.[0]?.price || null;
+    const priceRange = parsePrice(price);
 
     // Extract Image
     const image =
@@ -49,13 +53,8 @@ export function mapAlibabaToUnifiedProduct(rawOffer: any): UnifiedProduct {
     if (product.tradeProduct) badges.push('Trade Assurance');
     // Add other badges logic if needed from raw data
 
-    // Attributes - map flat generic fields or specific lists
-    const attributes: Record<string, string> = {};
-    if (product.reviewScore) attributes['Review Score'] = product.reviewScore;
-    if (product.reviewCount) attributes['Review Count'] = product.reviewCount;
-    // If there are other attribute lists in the raw JSON, map them here.
-    // Based on structure json, there might be 'productAuthTagData' or similar in larger context, 
-    // but usually generic attributes are sparse in the search list.
+    // Attributes - scores, certifications and selling points present in the search list
+    const attributes = getOfferAttributes(product);
 
     return {
         id,
@@ -64,8 +63,10 @@ export function mapAlibabaToUnifiedProduct(rawOffer: any): UnifiedProduct {
         image,
         images: images.filter((img: string) => !!img),
         price,
-        currency: detectCurrency(price),
+        currency: priceRange?.currency ?? null,
+        priceRange,
         moq,
+        moqQuantity: parseMoq(moq),
         productUrl,
         attributes,
         supplier: {
@@ -78,14 +79,3 @@ export function mapAlibabaToUnifiedProduct(rawOffer: any): UnifiedProduct {
         platformSpecific: product, // Store the ENTIRE raw object here
     };
 }
-
-function detectCurrency(price: string | null): string | null {
-    if (!price) return null;
-    const normalized = price.trim();
-    if (/US\s?\$|USD/i.test(normalized)) return 'USD';
-    if (normalized.startsWith('$')) return 'USD';
-    if (normalized.startsWith('₹')) return 'INR';
-    if (normalized.startsWith('€')) return 'EUR';
-    if (normalized.startsWith('£')) return 'GBP';
-    return null;
-}
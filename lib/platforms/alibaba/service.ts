@@ -1,13 +1,26 @@
 
 import { createProxyAgent } from "@/lib/proxy";
 import { mapAlibabaToUnifiedProduct } from "@/lib/platforms/alibaba/product-mapper";
-import { UnifiedProduct } from "@/lib/platforms/types";
+import { mapAlibabaToUnified } from "@/lib/platforms/alibaba/mapper";
+import { AlibabaSearchResponse as AlibabaSupplierPayload } from "@/lib/platforms/alibaba/types";
+import { ImageRegion, ImageSearchOptions, PreprocessedImage, UnifiedProduct, UnifiedSupplier } from "@/lib/platforms/types";
+import { PlatformSearchError, httpError, looksLikeCaptcha } from "@/lib/platforms/errors";
+import { getOrCreateImageHandle, invalidateImageHandle } from "@/lib/platforms/image-handles";
 
 export interface AlibabaSearchResponse {
     unifiedProducts: UnifiedProduct[];
     totalCount: number | undefined;
 }
 
+export interface AlibabaSupplierSearchResponse {
+    suppliers: UnifiedSupplier[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+const SUPPLIER_SEARCH_ENDPOINT = 'https://www.alibaba.com/search/api/supplierTextSearch';
+export const SUPPLIER_SEARCH_PAGE_SIZE = 20;
+
 export async function searchAlibabaText(query: string, page: number = 1): Promise<AlibabaSearchResponse> {
     const encodedQuery = encodeURIComponent(query);
     const url = `https://www.alibaba.com/hzmagellanviptbsitenet/trade/search?spm=a2700.galleryofferlist.leftFilter.d_filter.53c413a0tQ8bYG&fsb=y&IndexArea=product_en&assessmentCompany=true&has4Tab=true&keywords=${encodedQuery}&originKeywords=${encodedQuery}&tab=all&page=${page}`;
@@ -22,7 +35,7 @@ export async function searchAlibabaText(query: string, page: number = 1): Promis
     });
 
     if (!response.ok) {
-        throw new Error(`Failed to fetch Alibaba search results: ${response.status} ${response.statusText}`);
+        throw httpError('Alibaba', response);
     }
 
     const html = await response.text();
@@ -33,7 +46,10 @@ export async function searchAlibabaText(query: string, page: number = 1): Promis
 
     if (!match || !match[1]) {
         console.error("Could not find window.__page__data_sse10._offer_list in HTML");
-        throw new Error('Failed to extract data from vendor');
+        if (looksLikeCaptcha(html)) {
+            throw new PlatformSearchError('captcha', 'Alibaba returned a captcha page');
+        }
+        throw new PlatformSearchError('parse', 'Failed to extract data from vendor');
     }
 
     const jsonString = match[1];
@@ -51,7 +67,7 @@ export async function searchAlibabaText(query: string, page: number = 1): Promis
         totalCount = offerResultData.totalCount ? Number(offerResultData.totalCount) : undefined;
     } catch (parseError) {
         console.error("Error parsing JSON data:", parseError);
-        throw new Error('Failed to parse vendor data');
+        throw new PlatformSearchError('parse', 'Failed to parse vendor data');
     }
 
     const unifiedProducts = offers.map((offer: any) => mapAlibabaToUnifiedProduct(offer));
@@ -62,10 +78,27 @@ export async function searchAlibabaText(query: string, page: number = 1): Promis
     };
 }
 
-export async function searchAlibabaImage(file: Blob, page: number = 1): Promise<AlibabaSearchResponse> {
-    const buffer = Buffer.from(await file.arrayBuffer());
+export interface AlibabaImageRegions {
+    imagePath: string;
+    regions: ImageRegion[];
+}
+
+// Regions searched when the caller did not pick any
+const DEFAULT_REGION_COUNT = 4;
+
+/**
+ * Return Alibaba's handle for an image plus the objects it detected, so the
+ * user can choose which ones to search. The upload happens once per image;
+ * region detection, paging and repeat searches reuse the stored handle.
+ */
+export function detectAlibabaImageRegions(image: PreprocessedImage): Promise<AlibabaImageRegions> {
+    return getOrCreateImageHandle('alibaba', image.hash, () => uploadAlibabaImage(image));
+}
+
+async function uploadAlibabaImage(image: PreprocessedImage): Promise<AlibabaImageRegions> {
+    const buffer = Buffer.from(await image.blob.arrayBuffer());
     const base64Data = buffer.toString("base64");
-    const mimeType = file.type || "image/jpeg";
+    const mimeType = image.mimeType;
 
     // Note: Alibaba image upload requires base64 with data URI scheme
     const pictureBase = `data:${mimeType};base64,${base64Data}`;
@@ -89,19 +122,44 @@ export async function searchAlibabaImage(file: Blob, page: number = 1): Promise<
     });
 
     if (!uploadRes.ok) {
-        throw new Error(`Failed to upload image to Alibaba: ${uploadRes.status}`);
+        throw httpError('Alibaba image upload', uploadRes);
     }
 
     const uploadData = await uploadRes.json();
 
     if (!uploadData?.success || !uploadData?.model?.imagePath) {
         console.error("Alibaba Upload Response:", uploadData);
-        throw new Error("Invalid response from Alibaba image upload");
+        if (looksLikeCaptcha(JSON.stringify(uploadData ?? ''))) {
+            throw new PlatformSearchError('captcha', 'Alibaba image upload was blocked by a captcha');
+        }
+        throw new PlatformSearchError('parse', "Invalid response from Alibaba image upload");
     }
 
     const { imagePath, regions } = uploadData.model;
-    const selectedRegions = regions && regions.length > 0 ? regions.slice(0, 4) : regions || [];
-    const regionsJson = JSON.stringify(selectedRegions);
+    const rawRegions: unknown[] = Array.isArray(regions) ? regions : [];
+
+    return {
+        imagePath,
+        regions: rawRegions.map(toImageRegion),
+    };
+}
+
+/**
+ * Image search. `options.regions` are the regions the user picked; without
+ * them the first few detected regions are searched.
+ */
+export async function searchAlibabaImage(
+    image: PreprocessedImage,
+    page: number = 1,
+    options: ImageSearchOptions = {}
+): Promise<AlibabaSearchResponse> {
+    const { imagePath, regions } = await detectAlibabaImageRegions(image);
+    const selectedRegions = options.regions && options.regions.length > 0
+        ? options.regions
+        : regions.slice(0, DEFAULT_REGION_COUNT);
+    const regionsJson = JSON.stringify(selectedRegions.map(r => r.raw));
+
+    const agent = createProxyAgent();
 
     const params = new URLSearchParams({
         tab: "all",
@@ -129,7 +187,7 @@ export async function searchAlibabaImage(file: Blob, page: number = 1): Promise<
 
         if (!searchRes.ok) {
             console.error(`Failed to fetch Alibaba page ${page}: ${searchRes.status}`);
-            throw new Error(`Alibaba search failed: ${searchRes.status}`);
+            throw httpError('Alibaba image search', searchRes);
         }
 
         const responseData = await searchRes.json();
@@ -149,6 +207,12 @@ export async function searchAlibabaImage(file: Blob, page: number = 1): Promise<
 
     } catch (err: any) {
         console.error(`Error fetching/parsing Alibaba page ${page}:`, err);
+        // The imagePath may have expired; upload again next time
+        invalidateImageHandle('alibaba', image.hash);
+        if (err instanceof PlatformSearchError) throw err;
+        if (err instanceof SyntaxError) {
+            throw new PlatformSearchError('parse', 'Failed to parse image search results');
+        }
         throw new Error(err.message || "Failed to fetch image search results");
     }
 
@@ -159,3 +223,117 @@ export async function searchAlibabaImage(file: Blob, page: number = 1): Promise<
         totalCount
     };
 }
+
+/**
+ * Company-level search (supplierTextSearch JSON API). Each result is a supplier
+ * with its showcased products, mapped by `mapAlibabaToUnified`.
+ */
+export async function searchAlibabaSuppliers(
+    query: string,
+    page: number = 1,
+    pageSize: number = SUPPLIER_SEARCH_PAGE_SIZE
+): Promise<AlibabaSupplierSearchResponse> {
+    const agent = createProxyAgent();
+    const response = await fetch(buildSupplierSearchUrl(query, page, pageSize), {
+        headers: {
+            accept: 'application/json,text/javascript,*/*;q=0.01',
+        },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError('Alibaba supplier search', response);
+    }
+
+    const body = await response.text();
+    let payload: AlibabaSupplierPayload;
+    try {
+        payload = JSON.parse(body) as AlibabaSupplierPayload;
+    } catch {
+        if (looksLikeCaptcha(body)) {
+            throw new PlatformSearchError('captcha', 'Alibaba supplier search was blocked by a captcha');
+        }
+        throw new PlatformSearchError('parse', 'Failed to parse supplier search results');
+    }
+
+    const suppliers = mapAlibabaToUnified(payload);
+    const totalCount = payload.model?.totalCount;
+    const hasMore = typeof totalCount === 'number'
+        ? page * pageSize < totalCount
+        : suppliers.length === pageSize;
+
+    return { suppliers, totalCount, hasMore };
+}
+
+function buildSupplierSearchUrl(query: string, page: number, pageSize: number): string {
+    const endpoint = new URL(SUPPLIER_SEARCH_ENDPOINT);
+    const mirroredQueryParams = [
+        'productQpKeywords',
+        'queryProduct',
+        'supplierQpKeywords',
+        'supplierQpProductName',
+        'productName',
+        'queryRaw',
+        'query',
+        'queryMachineTranslate',
+    ];
+
+    mirroredQueryParams.forEach((param) => endpoint.searchParams.set(param, query));
+
+    endpoint.searchParams.set('pageSize', pageSize.toString());
+    endpoint.searchParams.set('page', page.toString());
+    endpoint.searchParams.set('from', 'pcHomeContent');
+    endpoint.searchParams.set('langident', 'en');
+    endpoint.searchParams.set('verifiedManufactory', 'false');
+    endpoint.searchParams.set('pro', 'false');
+    endpoint.searchParams.set('productAttributes', '');
+    endpoint.searchParams.set('intention', '');
+    endpoint.searchParams.set('supplierAttributes', '');
+    endpoint.searchParams.set('requestId', createRequestId());
+    endpoint.searchParams.set('startTime', Date.now().toString());
+
+    return endpoint.toString();
+}
+
+function createRequestId(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return `AI_Web_${crypto.randomUUID()}_${Date.now()}`;
+    }
+
+    return `AI_Web_${Math.random().toString(36).slice(2)}_${Date.now()}`;
+}
+
+/**
+ * Regions come back as "x1,x2,y1,y2" strings or objects wrapping such a
+ * string or explicit coordinates. The raw value is kept for the search call.
+ */
+function toImageRegion(raw: unknown, index: number): ImageRegion {
+    return { id: `region-${index}`, box: parseRegionBox(raw), raw };
+}
+
+function parseRegionBox(raw: unknown): ImageRegion['box'] {
+    if (typeof raw === 'string') {
+        const numbers = raw.split(/[,\s]+/).map(Number);
+        if (numbers.length !== 4 || numbers.some(n => !Number.isFinite(n))) return null;
+
+        const [x1, x2, y1, y2] = numbers;
+        if (x2 > x1 && y2 > y1) return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+        return null;
+    }
+
+    if (raw && typeof raw === 'object') {
+        const region = raw as Record<string, unknown>;
+        const nested = region.region ?? region.box ?? region.rect;
+        if (nested !== undefined) return parseRegionBox(nested);
+
+        const { x, y, width, height, left, top, right, bottom } = region as Record<string, number>;
+        if ([x, y, width, height].every(Number.isFinite)) return { x, y, width, height };
+        if ([left, top, right, bottom].every(Number.isFinite)) {
+            return { x: left, y: top, width: right - left, height: bottom - top };
+        }
+    }
+
+    return null;
+}
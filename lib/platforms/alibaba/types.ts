@@ -79,7 +79,19 @@ export interface AlibabaAdInfo {
 export interface AlibabaAdCreativeInfo {
   viewProfileText?: string;
   tpText?: string;
-  mainProduct?: AlibabaProduct;
-  products?: AlibabaProduct[];
+  mainProduct?: AlibabaCreativeProduct;
+  products?: AlibabaCreativeProduct[];
   [key: string]: unknown;
 }
+
+/**
+ * Sponsored-listing copy of a product. Unlike `productList` items it carries
+ * the full product subject.
+ */
+export interface AlibabaCreativeProduct {
+  id?: number | string;
+  subject?: string;
+  title?: string;
+  imageUrl?: string;
+  action?: string;
+}
@@ -0,0 +1,21 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { searchDHgateText, SEARCH_PAGE_SIZE } from './service';
+
+export const dhgateAdapter: PlatformAdapter = {
+  platform: 'dhgate',
+  label: PLATFORM_LABELS.dhgate,
+  capabilities: {
+    textSearch: true,
+    imageSearch: false,
+    supplierSearch: false,
+    productDetail: false,
+    pagination: true,
+  },
+  pageSize: SEARCH_PAGE_SIZE,
+
+  async searchText(query, page = 1) {
+    const { unifiedProducts, totalCount, hasMore } = await searchDHgateText(query, page);
+    return { products: unifiedProducts, totalCount, page, hasMore };
+  },
+};
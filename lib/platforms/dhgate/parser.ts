@@ -0,0 +1,87 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import { DHgateProductCard } from './types';
+
+/**
+ * Cheerio parser for DHgate wholesale search pages (/wholesale/search.do).
+ */
+
+const PLATFORM_BASE_URL = 'https://www.dhgate.com';
+
+/**
+ * `listFound` is false when the page has no result gallery at all, which means
+ * the layout changed or DHgate served something other than a search page.
+ */
+export function parseDHgateSearch(html: string): {
+    items: DHgateProductCard[];
+    totalCount: number | undefined;
+    listFound: boolean;
+} {
+    const $ = cheerio.load(html);
+    const items: DHgateProductCard[] = [];
+
+    $('.gallery-main .gitem').each((_, element) => {
+        const container = $(element);
+        const link = container.find('a.item-title').first();
+        const title = (link.attr('title') || link.text()).replace(/\s+/g, ' ').trim();
+        if (!title) return;
+
+        const url = normalizeUrl(link.attr('href'));
+        const store = container.find('.seller-info a.store-name').first();
+        const storeUrl = normalizeUrl(store.attr('href'));
+
+        const priceTiers = container.find('.wholesale-price li').toArray()
+            .map(row => ({
+                quantity: cleanText($(row).find('.qty').text()) ?? '',
+                price: cleanText($(row).find('.tier-price').text()) ?? '',
+            }))
+            .filter(tier => tier.quantity && tier.price);
+
+        items.push({
+            itemCode: container.attr('data-itemcode') || url.match(/\/(\d+)\.html/)?.[1] || url,
+            title,
+            url,
+            image: normalizeUrl(container.find('.photo img').first().attr('data-src') || container.find('.photo img').first().attr('src')) || null,
+            price: cleanText(container.find('.price').first().text()),
+            moq: cleanText(container.find('.min-order').first().text()),
+            priceTiers,
+            shippingText: cleanText(container.find('.shipping').first().text()),
+            deliveryText: cleanText(container.find('.delivery').first().text()),
+            rating: parseNumber(container.find('.star-score').first().text()),
+            ordersSold: parseNumber(container.find('.orders').first().text()),
+            storeId: storeUrl.match(/\/store\/(\d+)/)?.[1] || store.text().trim() || 'unknown',
+            storeName: store.text().trim() || 'Unknown Supplier',
+            storeUrl,
+            positiveFeedback: cleanText(container.find('.seller-info .feedback').first().text()),
+            topMerchant: hasBadge(container, '.top-merchant'),
+            premiumMerchant: hasBadge(container, '.premium-merchant'),
+        });
+    });
+
+    const total = parseNumber($('.search-result-count .num').first().text());
+    return { items, totalCount: total ?? undefined, listFound: $('.gallery-main').length > 0 };
+}
+
+function hasBadge(container: Cheerio<Element>, selector: string): boolean {
+    return container.find(`.seller-info ${selector}`).length > 0;
+}
+
+function parseNumber(value: string): number | null {
+    const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+}
+
+function cleanText(value: string | undefined): string | null {
+    const cleaned = (value ?? '').replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+}
+
+function normalizeUrl(url?: string | null): string {
+    if (!url) return '';
+    const trimmed = url.trim();
+    if (trimmed.startsWith('http')) return trimmed;
+    if (trimmed.startsWith('//')) return `https:${trimmed}`;
+    if (trimmed.startsWith('/')) return `${PLATFORM_BASE_URL}${trimmed}`;
+    return trimmed;
+}
@@ -0,0 +1,91 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { PriceTier, ShippingEstimate, UnifiedProduct } from '../types';
+import { DHgateProductCard } from './types';
+
+export function mapDHgateToUnifiedProduct(card: DHgateProductCard): UnifiedProduct {
+    const priceRange = parsePrice(card.price);
+
+    return {
+        id: card.itemCode,
+        platform: 'dhgate',
+        title: card.title || 'Untitled Product',
+        image: card.image ?? '',
+        images: card.image ? [card.image] : [],
+        price: card.price,
+        currency: priceRange?.currency ?? null,
+        priceRange,
+        moq: card.moq,
+        moqQuantity: parseMoq(card.moq),
+        productUrl: card.url,
+        attributes: buildAttributes(card),
+        priceTiers: parsePriceTiers(card.priceTiers),
+        shipping: parseShippingEstimate(card.shippingText, card.deliveryText),
+        supplier: {
+            id: card.storeId,
+            name: card.storeName,
+            url: card.storeUrl,
+            badges: buildBadges(card),
+        },
+        platformSpecific: { ...card },
+    };
+}
+
+/**
+ * Turn "1 - 9 Pieces" / "US $3.89" rows into tiers ordered by quantity.
+ * Rows whose quantity or price cannot be read are dropped.
+ */
+export function parsePriceTiers(rows: { quantity: string; price: string }[]): PriceTier[] {
+    return rows
+        .map(row => {
+            const quantities = (row.quantity.replace(/,/g, '').match(/\d+/g) ?? []).map(Number);
+            const price = parsePrice(row.price);
+            if (quantities.length === 0 || !price) return null;
+
+            const openEnded = quantities.length === 1 && /\+|≥|above|or more/i.test(row.quantity);
+            return {
+                minQuantity: quantities[0],
+                maxQuantity: quantities.length > 1 ? quantities[1] : openEnded ? null : quantities[0],
+                price: price.min,
+                currency: price.currency,
+            };
+        })
+        .filter((tier): tier is PriceTier => tier !== null)
+        .sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/**
+ * Parse "Free Shipping" / "Shipping: US $2.50 via ePacket" and
+ * "Estimated delivery: 7-15 days". Null when the card shows neither.
+ */
+export function parseShippingEstimate(shippingText: string | null, deliveryText: string | null): ShippingEstimate | null {
+    if (!shippingText && !deliveryText) return null;
+
+    const free = /free\s+shipping/i.test(shippingText ?? '');
+    const cost = free ? null : parsePrice(shippingText?.replace(/via\s+.*$/i, ''));
+    const days = (deliveryText?.match(/\d+/g) ?? []).map(Number);
+
+    return {
+        free,
+        cost: free ? 0 : cost?.min ?? null,
+        currency: cost?.currency ?? null,
+        method: shippingText?.match(/via\s+(.+)$/i)?.[1].trim() ?? null,
+        minDays: days.length > 0 ? days[0] : null,
+        maxDays: days.length > 0 ? days[days.length > 1 ? 1 : 0] : null,
+    };
+}
+
+function buildBadges(card: DHgateProductCard): string[] {
+    const badges: string[] = [];
+    if (card.topMerchant) badges.push('Top Merchant');
+    if (card.premiumMerchant) badges.push('Premium Merchant');
+    return badges;
+}
+
+function buildAttributes(card: DHgateProductCard): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    if (card.rating !== null) attributes['Rating'] = `${card.rating} / 5`;
+    if (card.ordersSold !== null) attributes['Orders'] = String(card.ordersSold);
+    if (card.positiveFeedback) attributes['Positive feedback'] = card.positiveFeedback;
+    return attributes;
+}
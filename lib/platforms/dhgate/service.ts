@@ -0,0 +1,60 @@
+import { createProxyAgent } from '@/lib/proxy';
+import { mapDHgateToUnifiedProduct } from '@/lib/platforms/dhgate/product-mapper';
+import { parseDHgateSearch } from '@/lib/platforms/dhgate/parser';
+import { UnifiedProduct } from '@/lib/platforms/types';
+import { PlatformSearchError, httpError, looksLikeCaptcha } from '@/lib/platforms/errors';
+
+export interface DHgateSearchResponse {
+    unifiedProducts: UnifiedProduct[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 48;
+
+export async function searchDHgateText(query: string, page: number = 1): Promise<DHgateSearchResponse> {
+    if (!query || !query.trim()) {
+        return { unifiedProducts: [], totalCount: 0, hasMore: false };
+    }
+
+    const params = new URLSearchParams({ act: 'search', searchkey: query.trim(), pageNum: String(page) });
+    const url = `https://www.dhgate.com/wholesale/search.do?${params.toString()}`;
+
+    const agent = createProxyAgent();
+    const response = await fetch(url, {
+        headers: {
+            'User-Agent':
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.8',
+            Referer: 'https://www.dhgate.com/',
+        },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError('DHgate', response);
+    }
+
+    const html = await response.text();
+    const { items, totalCount, listFound } = parseDHgateSearch(html);
+
+    if (items.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'DHgate returned a captcha page');
+    }
+    if (!listFound) {
+        throw new PlatformSearchError('parse', 'DHgate search page has no result list');
+    }
+
+    const hasMore = typeof totalCount === 'number'
+        ? page * SEARCH_PAGE_SIZE < totalCount
+        : items.length >= SEARCH_PAGE_SIZE;
+
+    return {
+        unifiedProducts: items.map(mapDHgateToUnifiedProduct),
+        totalCount,
+        hasMore,
+    };
+}
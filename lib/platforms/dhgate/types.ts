@@ -0,0 +1,28 @@
+/**
+ * Raw product card scraped from a DHgate wholesale search page.
+ * Text fields keep the listing's own wording; the mapper parses them.
+ */
+export interface DHgateProductCard {
+  itemCode: string;
+  title: string;
+  url: string;
+  image: string | null;
+  // "US $3.25 - 3.89 / Piece"
+  price: string | null;
+  // "Min. Order: 1 Piece"
+  moq: string | null;
+  // Quantity break rows: "1 - 9 Pieces" / "US $3.89"
+  priceTiers: { quantity: string; price: string }[];
+  // "Free Shipping" or "Shipping: US $2.50 via ePacket"
+  shippingText: string | null;
+  // "Estimated delivery: 7-15 days"
+  deliveryText: string | null;
+  rating: number | null;
+  ordersSold: number | null;
+  storeId: string;
+  storeName: string;
+  storeUrl: string;
+  positiveFeedback: string | null;
+  topMerchant: boolean;
+  premiumMerchant: boolean;
+}
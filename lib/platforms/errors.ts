@@ -0,0 +1,104 @@
+import { SearchErrorKind, SearchTaskError } from './types';
+
+/**
+ * Error thrown by platform services when the failure cause is known.
+ * Unified search turns it into a per-task status instead of an empty result.
+ */
+export class PlatformSearchError extends Error {
+  readonly kind: SearchErrorKind;
+  readonly httpStatus?: number;
+
+  constructor(kind: SearchErrorKind, message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'PlatformSearchError';
+    this.kind = kind;
+    this.httpStatus = httpStatus;
+  }
+}
+
+const CAPTCHA_MARKERS = [
+  /_{3,}tmd_{3,}/i, // Alibaba anti-bot redirect
+  /\/punish\?/i,
+  /x5secdata/i,
+  /slide to verify/i,
+  /captcha/i,
+];
+
+/**
+ * Heuristic check for anti-bot / captcha interstitials.
+ * Only call this when the expected data is missing, since normal pages may
+ * reference captcha scripts too.
+ */
+export function looksLikeCaptcha(body: string): boolean {
+  return CAPTCHA_MARKERS.some((marker) => marker.test(body));
+}
+
+/**
+ * Build the error for a non-2xx platform response.
+ */
+export function httpError(platformLabel: string, response: Response): PlatformSearchError {
+  return new PlatformSearchError(
+    'http',
+    `${platformLabel} responded with status ${response.status}`,
+    response.status,
+  );
+}
+
+export function classifySearchError(error: unknown): SearchTaskError {
+  if (error instanceof PlatformSearchError) {
+    return { kind: error.kind, message: error.message, httpStatus: error.httpStatus };
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      return { kind: 'timeout', message: error.message };
+    }
+    if (error instanceof SyntaxError) {
+      return { kind: 'parse', message: error.message };
+    }
+    if (looksLikeCaptcha(error.message)) {
+      return { kind: 'captcha', message: error.message };
+    }
+
+    const status = error.message.match(/status:?\s*(\d{3})/i);
+    if (status) {
+      return { kind: 'http', message: error.message, httpStatus: Number(status[1]) };
+    }
+
+    return { kind: 'unknown', message: error.message };
+  }
+
+  return { kind: 'unknown', message: String(error) };
+}
+
+/**
+ * Whether asking again later can succeed: timeouts, rate limits, server errors
+ * and network failures (which surface as `unknown`). Parse failures, captchas
+ * and other 4xx responses will not change on retry.
+ */
+export function isRetryableSearchError(error: SearchTaskError): boolean {
+  switch (error.kind) {
+    case 'timeout':
+    case 'unknown':
+      return true;
+    case 'http':
+      return !error.httpStatus || error.httpStatus === 429 || error.httpStatus >= 500;
+    default:
+      return false;
+  }
+}
+
+export function describeSearchError(error: SearchTaskError): string {
+  switch (error.kind) {
+    case 'http':
+      return error.httpStatus ? `HTTP ${error.httpStatus}` : 'HTTP error';
+    case 'parse':
+      return 'Could not parse response';
+    case 'captcha':
+      return 'Blocked by captcha';
+    case 'timeout':
+      return 'Timed out';
+    default:
+      return error.message || 'Unknown error';
+  }
+}
@@ -0,0 +1,26 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { searchGSText, searchGSSuppliers, PRODUCT_SEARCH_PAGE_SIZE } from './service';
+
+export const globalSourcesAdapter: PlatformAdapter = {
+  platform: 'globalsources',
+  label: PLATFORM_LABELS.globalsources,
+  capabilities: {
+    textSearch: true,
+    imageSearch: false,
+    supplierSearch: true,
+    productDetail: false,
+    pagination: true,
+  },
+  pageSize: PRODUCT_SEARCH_PAGE_SIZE,
+
+  async searchText(query, page = 1) {
+    const { unifiedProducts, totalCount, hasMore } = await searchGSText(query, page);
+    return { products: unifiedProducts, totalCount, page, hasMore };
+  },
+
+  async searchSuppliers(query, page = 1) {
+    const { suppliers, totalCount, hasMore } = await searchGSSuppliers(query, page);
+    return { suppliers, totalCount, page, hasMore };
+  },
+};
@@ -0,0 +1,69 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { UnifiedProduct, UnifiedSupplier } from '../types';
+import { buildGSBadges } from './product-mapper';
+import { GSSupplier } from './types';
+
+const PLATFORM = 'globalsources' as const;
+
+export function mapGSToUnifiedSuppliers(suppliers: GSSupplier[]): UnifiedSupplier[] {
+    return suppliers.map(mapSupplier);
+}
+
+function mapSupplier(supplier: GSSupplier): UnifiedSupplier {
+    const products = supplier.productList.map(product => mapSubProduct(product, supplier));
+    const firstPriced = products.find(product => product.priceRange);
+    const firstMoq = products.find(product => product.moqQuantity);
+    const images = [supplier.logo, ...products.map(product => product.image)]
+        .filter((value): value is string => Boolean(value));
+
+    return {
+        id: `${PLATFORM}-${supplier.supplierId}`,
+        platform: PLATFORM,
+        name: supplier.supplierName,
+        description: supplier.mainProducts.slice(0, 3).join(', ') || undefined,
+        price: firstPriced?.price ?? null,
+        currency: firstPriced?.currency ?? null,
+        priceRange: firstPriced?.priceRange ?? null,
+        moq: firstMoq?.moq ?? null,
+        moqQuantity: firstMoq?.moqQuantity ?? null,
+        images: Array.from(new Set(images)),
+        products,
+        supplier: {
+            id: supplier.supplierId,
+            name: supplier.supplierName,
+            location: supplier.location ?? undefined,
+            verification: buildGSBadges(supplier),
+            url: supplier.supplierUrl,
+        },
+        url: supplier.supplierUrl,
+        platformSpecific: { ...supplier },
+    };
+}
+
+function mapSubProduct(product: GSSupplier['productList'][number], supplier: GSSupplier): UnifiedProduct {
+    const priceRange = parsePrice(product.price);
+
+    return {
+        id: product.productId,
+        platform: PLATFORM,
+        title: product.title,
+        image: product.image ?? '',
+        images: product.image ? [product.image] : [],
+        price: product.price,
+        currency: priceRange?.currency ?? null,
+        priceRange,
+        moq: product.moq,
+        moqQuantity: parseMoq(product.moq),
+        productUrl: product.url,
+        attributes: {},
+        supplier: {
+            id: supplier.supplierId,
+            name: supplier.supplierName,
+            url: supplier.supplierUrl,
+            location: supplier.location ?? undefined,
+            badges: buildGSBadges(supplier),
+        },
+        platformSpecific: { ...product },
+    };
+}
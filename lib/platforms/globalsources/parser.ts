@@ -0,0 +1,150 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { GSProductSummary, GSSearchPage, GSSellerFields, GSSupplier } from './types';
+
+/**
+ * Cheerio parsers for Global Sources search listing pages
+ * (/searchList/products and /searchList/suppliers).
+ */
+
+const PLATFORM_BASE_URL = 'https://www.globalsources.com';
+
+export function parseGSProductSearch(html: string): GSSearchPage<GSProductSummary> {
+    const $ = cheerio.load(html);
+    const items: GSProductSummary[] = [];
+
+    $('.product-list .product-item').each((_, element) => {
+        const container = $(element);
+        const link = container.find('a.product-name').first();
+        const title = (link.attr('title') || link.text()).trim();
+        if (!title) return;
+
+        const url = normalizeUrl(link.attr('href'));
+        const seller = extractSeller($, container);
+        if (!seller) return;
+
+        items.push({
+            ...seller,
+            productId: container.attr('data-product-id') || extractId(url, /-p(\d+)\.htm/) || url,
+            title,
+            url,
+            image: normalizeUrl(container.find('.img-box img').first().attr('src')) || null,
+            price: extractPrice(container),
+            moq: cleanText(container.find('.moq').first().text()),
+            attributes: extractAttributes($, container),
+        });
+    });
+
+    return { items, totalCount: extractTotalCount($), listFound: $('.product-list').length > 0 };
+}
+
+export function parseGSSupplierSearch(html: string): GSSearchPage<GSSupplier> {
+    const $ = cheerio.load(html);
+    const items: GSSupplier[] = [];
+
+    $('.supplier-list .supplier-item').each((_, element) => {
+        const container = $(element);
+        const seller = extractSeller($, container);
+        if (!seller) return;
+
+        const productList = container.find('.supplier-products .product').toArray().map(product => {
+            const $product = $(product);
+            const link = $product.find('a').first();
+            const url = normalizeUrl(link.attr('href'));
+            return {
+                productId: extractId(url, /-p(\d+)\.htm/) || url,
+                title: (link.attr('title') || $product.find('.product-name').text()).trim(),
+                url,
+                image: normalizeUrl($product.find('img').first().attr('src')) || null,
+                price: extractPrice($product),
+                moq: cleanText($product.find('.moq').first().text()),
+            };
+        }).filter(product => product.title);
+
+        items.push({
+            ...seller,
+            logo: normalizeUrl(container.find('.supplier-logo img').first().attr('src')) || null,
+            mainProducts: cleanText(container.find('.main-products').first().text())
+                ?.replace(/^main products:?/i, '')
+                .split(/[,;]/)
+                .map(value => value.trim())
+                .filter(Boolean) ?? [],
+            productList,
+        });
+    });
+
+    return { items, totalCount: extractTotalCount($), listFound: $('.supplier-list').length > 0 };
+}
+
+/**
+ * Seller block shared by product and supplier cards.
+ */
+function extractSeller($: CheerioAPI, container: Cheerio<Element>): GSSellerFields | null {
+    const info = container.find('.supplier-info').first();
+    const link = info.find('a.supplier-name').first();
+    const supplierName = (link.attr('title') || link.text()).trim();
+    if (!supplierName) return null;
+
+    const supplierUrl = normalizeUrl(link.attr('href'));
+    const years = cleanText(info.find('.supplier-years').first().text())?.match(/(\d+)/);
+
+    return {
+        supplierId: info.attr('data-supplier-id') ||
+            extractId(supplierUrl, /-sd-(\d+)\.htm/) ||
+            `gs-${supplierName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        supplierName,
+        supplierUrl,
+        location: cleanText(info.find('.location').first().text()),
+        businessType: cleanText(info.find('.business-type').first().text()),
+        supplierYears: years ? Number(years[1]) : null,
+        verifiedSupplier: info.find('.verified-supplier').length > 0,
+        verifiedManufacturer: info.find('.verified-manufacturer').length > 0,
+        exhibitor: info.find('.exhibitor').length > 0,
+    };
+}
+
+/**
+ * Price plus its unit ("US$ 4.50-6.20" + "/ Piece").
+ */
+function extractPrice(container: Cheerio<Element>): string | null {
+    const price = container.find('.price').first();
+    const amount = cleanText(price.find('.num').text() || price.text());
+    if (!amount) return null;
+    const unit = cleanText(price.find('.unit').text());
+    return unit && !amount.includes('/') ? `${amount} ${unit}` : amount;
+}
+
+function extractAttributes($: CheerioAPI, container: Cheerio<Element>): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    container.find('.product-attrs li').each((_, item) => {
+        const name = cleanText($(item).find('.attr-name').text())?.replace(/:$/, '');
+        const value = cleanText($(item).find('.attr-value').text());
+        if (name && value) attributes[name] = value;
+    });
+    return attributes;
+}
+
+function extractTotalCount($: CheerioAPI): number | undefined {
+    const text = $('.search-total .num').first().text() || $('.search-total').first().text();
+    const match = text.replace(/,/g, '').match(/(\d+)/);
+    return match ? Number(match[1]) : undefined;
+}
+
+function extractId(url: string, pattern: RegExp): string | null {
+    return url.match(pattern)?.[1] ?? null;
+}
+
+function cleanText(value: string | undefined): string | null {
+    const cleaned = (value ?? '').replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+}
+
+function normalizeUrl(url?: string | null): string {
+    if (!url) return '';
+    const trimmed = url.trim();
+    if (trimmed.startsWith('http')) return trimmed;
+    if (trimmed.startsWith('//')) return `https:${trimmed}`;
+    if (trimmed.startsWith('/')) return `${PLATFORM_BASE_URL}${trimmed}`;
+    return trimmed;
+}
@@ -0,0 +1,45 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { UnifiedProduct } from '../types';
+import { GSProductSummary, GSSellerFields } from './types';
+
+export function mapGSToUnifiedProduct(product: GSProductSummary): UnifiedProduct {
+    const priceRange = parsePrice(product.price);
+
+    return {
+        id: product.productId,
+        platform: 'globalsources',
+        title: product.title || 'Untitled Product',
+        image: product.image ?? '',
+        images: product.image ? [product.image] : [],
+        price: product.price,
+        currency: priceRange?.currency ?? null,
+        priceRange,
+        moq: product.moq,
+        moqQuantity: parseMoq(product.moq),
+        productUrl: product.url,
+        attributes: product.attributes,
+        supplier: {
+            id: product.supplierId,
+            name: product.supplierName,
+            url: product.supplierUrl,
+            location: product.location ?? undefined,
+            badges: buildGSBadges(product),
+        },
+        platformSpecific: { ...product },
+    };
+}
+
+/**
+ * Verification badges from the seller block of a product or supplier card.
+ */
+export function buildGSBadges(seller: GSSellerFields): string[] {
+    const badges: string[] = [];
+
+    if (seller.verifiedManufacturer) badges.push('Verified Manufacturer');
+    else if (seller.verifiedSupplier) badges.push('Verified Supplier');
+    if (seller.exhibitor) badges.push('Trade Show Exhibitor');
+    if (seller.supplierYears) badges.push(`Global Sources ${seller.supplierYears} yrs`);
+
+    return badges;
+}
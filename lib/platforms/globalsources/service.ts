@@ -0,0 +1,95 @@
+import { createProxyAgent } from '@/lib/proxy';
+import { mapGSToUnifiedProduct } from '@/lib/platforms/globalsources/product-mapper';
+import { mapGSToUnifiedSuppliers } from '@/lib/platforms/globalsources/mapper';
+import { parseGSProductSearch, parseGSSupplierSearch } from '@/lib/platforms/globalsources/parser';
+import { UnifiedProduct, UnifiedSupplier } from '@/lib/platforms/types';
+import { PlatformSearchError, httpError, looksLikeCaptcha } from '@/lib/platforms/errors';
+
+export interface GSSearchResponse {
+    unifiedProducts: UnifiedProduct[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export interface GSSupplierSearchResponse {
+    suppliers: UnifiedSupplier[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export const PRODUCT_SEARCH_PAGE_SIZE = 40;
+export const SUPPLIER_SEARCH_PAGE_SIZE = 20;
+
+export async function searchGSText(query: string, page: number = 1): Promise<GSSearchResponse> {
+    if (!query || !query.trim()) {
+        return { unifiedProducts: [], totalCount: 0, hasMore: false };
+    }
+
+    const html = await fetchSearchPage('products', query, page);
+    const { items, totalCount, listFound } = parseGSProductSearch(html);
+
+    if (items.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'Global Sources returned a captcha page');
+    }
+    if (!listFound) {
+        throw new PlatformSearchError('parse', 'Global Sources product search page has no result list');
+    }
+
+    return {
+        unifiedProducts: items.map(mapGSToUnifiedProduct),
+        totalCount,
+        hasMore: calculateHasMore(totalCount, page, items.length, PRODUCT_SEARCH_PAGE_SIZE),
+    };
+}
+
+export async function searchGSSuppliers(query: string, page: number = 1): Promise<GSSupplierSearchResponse> {
+    if (!query || !query.trim()) {
+        return { suppliers: [], totalCount: 0, hasMore: false };
+    }
+
+    const html = await fetchSearchPage('suppliers', query, page);
+    const { items, totalCount, listFound } = parseGSSupplierSearch(html);
+
+    if (items.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'Global Sources returned a captcha page');
+    }
+    if (!listFound) {
+        throw new PlatformSearchError('parse', 'Global Sources supplier search page has no result list');
+    }
+
+    return {
+        suppliers: mapGSToUnifiedSuppliers(items),
+        totalCount,
+        hasMore: calculateHasMore(totalCount, page, items.length, SUPPLIER_SEARCH_PAGE_SIZE),
+    };
+}
+
+async function fetchSearchPage(listing: 'products' | 'suppliers', query: string, page: number): Promise<string> {
+    const params = new URLSearchParams({ keyWord: query.trim(), pageNum: String(page) });
+    const url = `https://www.globalsources.com/searchList/${listing}?${params.toString()}`;
+
+    const agent = createProxyAgent();
+    const response = await fetch(url, {
+        headers: {
+            'User-Agent':
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.8',
+            Referer: 'https://www.globalsources.com/',
+        },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError(listing === 'products' ? 'Global Sources' : 'Global Sources supplier search', response);
+    }
+
+    return response.text();
+}
+
+function calculateHasMore(totalCount: number | undefined, page: number, resultCount: number, pageSize: number): boolean {
+    if (typeof totalCount === 'number') return page * pageSize < totalCount;
+    return resultCount >= pageSize;
+}
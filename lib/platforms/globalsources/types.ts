@@ -0,0 +1,42 @@
+/**
+ * Raw records scraped from Global Sources search listing pages.
+ * Product and supplier cards share the seller fields, so a product carries
+ * everything needed to build its supplier badges.
+ */
+
+export interface GSSellerFields {
+  supplierId: string;
+  supplierName: string;
+  supplierUrl: string;
+  location: string | null;
+  businessType: string | null;
+  // Years listed on Global Sources ("5 yrs" on the card)
+  supplierYears: number | null;
+  verifiedSupplier: boolean;
+  verifiedManufacturer: boolean;
+  // Exhibited at a Global Sources trade show
+  exhibitor: boolean;
+}
+
+export interface GSProductSummary extends GSSellerFields {
+  productId: string;
+  title: string;
+  url: string;
+  image: string | null;
+  price: string | null;
+  moq: string | null;
+  attributes: Record<string, string>;
+}
+
+export interface GSSupplier extends GSSellerFields {
+  logo: string | null;
+  mainProducts: string[];
+  productList: Pick<GSProductSummary, 'productId' | 'title' | 'url' | 'image' | 'price' | 'moq'>[];
+}
+
+export interface GSSearchPage<T> {
+  items: T[];
+  totalCount: number | undefined;
+  /** False when the page has no result list at all (changed layout, block page) */
+  listFound: boolean;
+}
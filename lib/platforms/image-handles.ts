@@ -0,0 +1,67 @@
+import { PlatformType } from './types';
+
+/**
+ * Platform handles for uploaded images (Alibaba imagePath + regions,
+ * Made-in-China result URL), keyed by the preprocessed image's content hash.
+ * Paging and repeat searches of the same picture reuse the handle instead of
+ * uploading again. Kept in memory per server instance.
+ */
+
+// Platforms expire uploads after a while; stay well inside that
+const HANDLE_TTL_MS = 30 * 60 * 1000;
+const MAX_HANDLES = 200;
+
+interface HandleEntry {
+    handle: Promise<unknown>;
+    expiresAt: number;
+}
+
+const handles = new Map<string, HandleEntry>();
+
+/**
+ * Return the stored handle for this image, or run `upload` and store its result.
+ * Concurrent calls for the same image share one upload; a failed upload is not stored.
+ */
+export async function getOrCreateImageHandle<T>(
+    platform: PlatformType,
+    hash: string,
+    upload: () => Promise<T>
+): Promise<T> {
+    const key = toKey(platform, hash);
+    const existing = handles.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+        return existing.handle as Promise<T>;
+    }
+
+    const handle = upload();
+    handles.delete(key);
+    handles.set(key, { handle, expiresAt: Date.now() + HANDLE_TTL_MS });
+    evictOverflow();
+
+    try {
+        return await handle;
+    } catch (error) {
+        if (handles.get(key)?.handle === handle) handles.delete(key);
+        throw error;
+    }
+}
+
+/**
+ * Drop a handle the platform no longer accepts, so the next search re-uploads.
+ */
+export function invalidateImageHandle(platform: PlatformType, hash: string): void {
+    handles.delete(toKey(platform, hash));
+}
+
+function evictOverflow() {
+    // Map keeps insertion order, so the first keys are the oldest
+    while (handles.size > MAX_HANDLES) {
+        const oldest = handles.keys().next().value;
+        if (oldest === undefined) break;
+        handles.delete(oldest);
+    }
+}
+
+function toKey(platform: PlatformType, hash: string): string {
+    return `${platform}:${hash}`;
+}
@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { ImageCrop, ImageRequirements, PreprocessedImage } from './types';
+import { PlatformSearchError } from './errors';
+
+/**
+ * Shared server-side image preprocessing for every platform's image search.
+ * Phone photos arrive as multi-megabyte HEIC/PNG files with EXIF orientation;
+ * each adapter declares `imageRequirements` and gets a normalized image.
+ */
+
+export const DEFAULT_IMAGE_REQUIREMENTS: ImageRequirements = {
+    format: 'jpeg',
+    maxDimension: 1600,
+    maxBytes: 3 * 1024 * 1024,
+    quality: 80,
+};
+
+// Re-encode attempts before giving up on the size cap
+const MAX_ENCODE_ATTEMPTS = 6;
+const MIN_QUALITY = 50;
+
+const MIME_TYPES: Record<ImageRequirements['format'], string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+};
+
+export async function preprocessImage(
+    image: Blob,
+    requirements: ImageRequirements = DEFAULT_IMAGE_REQUIREMENTS,
+    crop?: ImageCrop
+): Promise<PreprocessedImage> {
+    const original = Buffer.from(await image.arrayBuffer());
+
+    const { data: oriented, info } = await decodeImage(original);
+
+    const region = crop ? toPixelRegion(crop, info.width, info.height) : null;
+
+    let maxDimension = requirements.maxDimension;
+    let quality = requirements.quality;
+
+    for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+        let pipeline = sharp(oriented, info.format === 'raw'
+            ? { raw: { width: info.width, height: info.height, channels: info.channels } }
+            : undefined);
+        if (region) pipeline = pipeline.extract(region);
+
+        const { data, info: output } = await pipeline
+            .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+            .toFormat(requirements.format, { quality })
+            .toBuffer({ resolveWithObject: true });
+
+        if (data.length <= requirements.maxBytes) {
+            const mimeType = MIME_TYPES[requirements.format];
+            return {
+                blob: new Blob([new Uint8Array(data)], { type: mimeType }),
+                mimeType,
+                width: output.width,
+                height: output.height,
+                bytes: data.length,
+                originalBytes: original.length,
+                hash: createHash('sha256').update(data).digest('hex'),
+            };
+        }
+
+        // Lower quality first, then shrink
+        if (requirements.format !== 'png' && quality - 15 >= MIN_QUALITY) {
+            quality -= 15;
+        } else {
+            maxDimension = Math.round(maxDimension * 0.75);
+        }
+    }
+
+    throw new PlatformSearchError(
+        'parse',
+        `Image could not be reduced below ${Math.round(requirements.maxBytes / 1024)} KB`
+    );
+}
+
+/**
+ * Decodes the upload and applies EXIF orientation once, so crop fractions and
+ * dimensions match what the user sees. The prebuilt sharp binaries read HEIF
+ * containers but carry no HEVC decoder, so iPhone HEIC photos are decoded by
+ * libheif (via heic-decode), which also applies the container's rotation;
+ * those come back as raw RGBA pixels.
+ */
+async function decodeImage(original: Buffer): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    try {
+        return await sharp(original, { failOn: 'none' }).rotate().toBuffer({ resolveWithObject: true });
+    } catch (error) {
+        if (!isHeif(original)) {
+            console.error('Image preprocessing: could not decode image', error);
+            throw new PlatformSearchError('parse', 'Could not read the uploaded image; try a JPEG or PNG');
+        }
+    }
+
+    try {
+        const { width, height, data } = await decodeHeic({ buffer: original });
+        return await sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+            raw: { width, height, channels: 4 },
+        }).toBuffer({ resolveWithObject: true });
+    } catch (error) {
+        console.error('Image preprocessing: could not decode HEIC image', error);
+        throw new PlatformSearchError('parse', 'Could not read the uploaded HEIC image; try a JPEG or PNG');
+    }
+}
+
+// ISO-BMFF files (HEIC/HEIF/AVIF) start with a 'ftyp' box
+function isHeif(buffer: Buffer): boolean {
+    return buffer.length > 12 && buffer.toString('ascii', 4, 8) === 'ftyp';
+}
+
+function toPixelRegion(crop: ImageCrop, width: number, height: number) {
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const left = Math.round(clamp(crop.x) * width);
+    const top = Math.round(clamp(crop.y) * height);
+
+    return {
+        left,
+        top,
+        width: Math.max(1, Math.min(width - left, Math.round(clamp(crop.width) * width))),
+        height: Math.max(1, Math.min(height - top, Math.round(clamp(crop.height) * height))),
+    };
+}
@@ -0,0 +1,21 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { searchIndiaMartText, SEARCH_PAGE_SIZE } from './service';
+
+export const indiaMartAdapter: PlatformAdapter = {
+  platform: 'indiamart',
+  label: PLATFORM_LABELS.indiamart,
+  capabilities: {
+    textSearch: true,
+    imageSearch: false,
+    supplierSearch: false,
+    productDetail: false,
+    pagination: true,
+  },
+  pageSize: SEARCH_PAGE_SIZE,
+
+  async searchText(query, page = 1) {
+    const { unifiedProducts, totalCount, hasMore } = await searchIndiaMartText(query, page);
+    return { products: unifiedProducts, totalCount, page, hasMore };
+  },
+};
@@ -0,0 +1,111 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { IndiaMartListing } from './types';
+
+/**
+ * Cheerio parser for IndiaMART search pages (dir.indiamart.com/search.mp).
+ */
+
+const PLATFORM_BASE_URL = 'https://dir.indiamart.com';
+
+// Listings without a price show one of these call-to-action labels instead
+const PRICE_ON_REQUEST = /price on request|get (the )?latest price|ask (for )?price|request (a )?quote/i;
+
+/**
+ * `listFound` is false when the page has no listing container, i.e. the layout
+ * changed or IndiaMART served an interstitial instead of search results.
+ */
+export function parseIndiaMartSearch(html: string): {
+    items: IndiaMartListing[];
+    totalCount: number | undefined;
+    listFound: boolean;
+} {
+    const $ = cheerio.load(html);
+    const items: IndiaMartListing[] = [];
+
+    $('.listing .prd-card').each((_, element) => {
+        const container = $(element);
+        const link = container.find('.prd-name a').first();
+        const title = (link.attr('title') || link.text()).replace(/\s+/g, ' ').trim();
+        if (!title) return;
+
+        const url = normalizeUrl(link.attr('href'));
+        const companyLink = container.find('.companyname a').first();
+        const companyName = companyLink.text().replace(/\s+/g, ' ').trim();
+        const companyUrl = normalizeUrl(companyLink.attr('href'));
+        const priceText = cleanText(container.find('.price').first().text());
+        const priceOnRequest = !priceText || PRICE_ON_REQUEST.test(priceText) || !/\d/.test(priceText);
+        const { city, state } = extractLocation(container);
+        const gstNumber = cleanText(container.find('.gst-number').first().text())
+            ?.replace(/^gst(\s*no\.?)?:?\s*/i, '') || null;
+        const years = cleanText(container.find('.member-since').first().text())?.match(/(\d+)/);
+
+        items.push({
+            productId: container.attr('data-dispid') || url.match(/-(\d+)\.html/)?.[1] || url,
+            title,
+            url,
+            image: normalizeUrl(container.find('.prd-img img').first().attr('data-src') || container.find('.prd-img img').first().attr('src')) || null,
+            price: priceOnRequest ? null : priceText,
+            priceOnRequest,
+            moq: cleanText(container.find('.moq').first().text())?.replace(/^moq:?\s*/i, '') || null,
+            attributes: extractAttributes($, container),
+            companyId: container.attr('data-glid') ||
+                companyUrl.match(/indiamart\.com\/([^/]+)/)?.[1] ||
+                companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+            companyName: companyName || 'Unknown Supplier',
+            companyUrl,
+            city,
+            state,
+            gstNumber,
+            gstVerified: container.find('.gst-verified').length > 0 || Boolean(gstNumber),
+            trustSeal: container.find('.trustseal').length > 0,
+            verifiedExporter: container.find('.verified-exporter').length > 0,
+            leadingSupplier: container.find('.leading-supplier').length > 0,
+            memberYears: years ? Number(years[1]) : null,
+        });
+    });
+
+    const total = $('.search-count').first().text().replace(/,/g, '').match(/(\d+)/);
+    return { items, totalCount: total ? Number(total[1]) : undefined, listFound: $('.listing').length > 0 };
+}
+
+/**
+ * "Andheri East, Mumbai, Maharashtra": the last part is the state and the one
+ * before it the city; locality prefixes are dropped.
+ */
+function extractLocation(container: Cheerio<Element>): { city: string | null; state: string | null } {
+    const parts = (cleanText(container.find('.location').first().text()) ?? '')
+        .split(',')
+        .map(part => part.trim())
+        .filter(Boolean);
+
+    if (parts.length === 0) return { city: null, state: null };
+    if (parts.length === 1) return { city: parts[0], state: null };
+    return { city: parts[parts.length - 2], state: parts[parts.length - 1] };
+}
+
+function extractAttributes($: CheerioAPI, container: Cheerio<Element>): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    container.find('.prd-specs tr').each((_, row) => {
+        const cells = $(row).find('td');
+        const name = cleanText(cells.eq(0).text())?.replace(/:$/, '');
+        const value = cleanText(cells.eq(1).text());
+        if (name && value) attributes[name] = value;
+    });
+    return attributes;
+}
+
+function cleanText(value: string | undefined): string | null {
+    const cleaned = (value ?? '').replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+}
+
+function normalizeUrl(url?: string | null): string {
+    if (!url) return '';
+    const trimmed = url.trim();
+    if (trimmed.startsWith('http')) return trimmed;
+    if (trimmed.startsWith('//')) return `https:${trimmed}`;
+    if (trimmed.startsWith('/')) return `${PLATFORM_BASE_URL}${trimmed}`;
+    return trimmed;
+}
@@ -0,0 +1,48 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
+import { UnifiedProduct } from '../types';
+import { IndiaMartListing } from './types';
+
+// Shown in place of a price; parsePrice finds no number in it
+export const PRICE_ON_REQUEST = 'Price on request';
+
+export function mapIndiaMartToUnifiedProduct(listing: IndiaMartListing): UnifiedProduct {
+    const price = listing.priceOnRequest ? PRICE_ON_REQUEST : listing.price;
+    const priceRange = parsePrice(listing.priceOnRequest ? null : listing.price);
+
+    return {
+        id: listing.productId,
+        platform: 'indiamart',
+        title: listing.title || 'Untitled Product',
+        image: listing.image ?? '',
+        images: listing.image ? [listing.image] : [],
+        price,
+        // IndiaMART lists in rupees even when the symbol is missing
+        currency: priceRange ? priceRange.currency ?? 'INR' : null,
+        priceRange: priceRange && { ...priceRange, currency: priceRange.currency ?? 'INR' },
+        moq: listing.moq,
+        moqQuantity: parseMoq(listing.moq),
+        productUrl: listing.url,
+        attributes: listing.attributes,
+        supplier: {
+            id: listing.companyId,
+            name: listing.companyName,
+            url: listing.companyUrl,
+            location: [listing.city, listing.state].filter(Boolean).join(', ') || undefined,
+            badges: buildBadges(listing),
+        },
+        platformSpecific: { ...listing },
+    };
+}
+
+function buildBadges(listing: IndiaMartListing): string[] {
+    const badges: string[] = [];
+
+    if (listing.gstVerified) badges.push('GST Verified');
+    if (listing.trustSeal) badges.push('TrustSEAL Verified');
+    if (listing.verifiedExporter) badges.push('Verified Exporter');
+    if (listing.leadingSupplier) badges.push('Leading Supplier');
+    if (listing.memberYears) badges.push(`IndiaMART ${listing.memberYears} yrs`);
+
+    return badges;
+}
@@ -0,0 +1,60 @@
+import { createProxyAgent } from '@/lib/proxy';
+import { mapIndiaMartToUnifiedProduct } from '@/lib/platforms/indiamart/product-mapper';
+import { parseIndiaMartSearch } from '@/lib/platforms/indiamart/parser';
+import { UnifiedProduct } from '@/lib/platforms/types';
+import { PlatformSearchError, httpError, looksLikeCaptcha } from '@/lib/platforms/errors';
+
+export interface IndiaMartSearchResponse {
+    unifiedProducts: UnifiedProduct[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export const SEARCH_PAGE_SIZE = 28;
+
+export async function searchIndiaMartText(query: string, page: number = 1): Promise<IndiaMartSearchResponse> {
+    if (!query || !query.trim()) {
+        return { unifiedProducts: [], totalCount: 0, hasMore: false };
+    }
+
+    const params = new URLSearchParams({ ss: query.trim(), page: String(page) });
+    const url = `https://dir.indiamart.com/search.mp?${params.toString()}`;
+
+    const agent = createProxyAgent();
+    const response = await fetch(url, {
+        headers: {
+            'User-Agent':
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-IN,en;q=0.8',
+            Referer: 'https://www.indiamart.com/',
+        },
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+        cache: 'no-store',
+    });
+
+    if (!response.ok) {
+        throw httpError('IndiaMART', response);
+    }
+
+    const html = await response.text();
+    const { items, totalCount, listFound } = parseIndiaMartSearch(html);
+
+    if (items.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'IndiaMART returned a captcha page');
+    }
+    if (!listFound) {
+        throw new PlatformSearchError('parse', 'IndiaMART search page has no listing container');
+    }
+
+    const hasMore = typeof totalCount === 'number'
+        ? page * SEARCH_PAGE_SIZE < totalCount
+        : items.length >= SEARCH_PAGE_SIZE;
+
+    return {
+        unifiedProducts: items.map(mapIndiaMartToUnifiedProduct),
+        totalCount,
+        hasMore,
+    };
+}
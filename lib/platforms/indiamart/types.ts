@@ -0,0 +1,25 @@
+/**
+ * Raw product listing scraped from an IndiaMART search page (dir.indiamart.com).
+ */
+export interface IndiaMartListing {
+  productId: string;
+  title: string;
+  url: string;
+  image: string | null;
+  // "₹ 250/ Piece"; null when the listing asks buyers to request a quote
+  price: string | null;
+  priceOnRequest: boolean;
+  moq: string | null;
+  attributes: Record<string, string>;
+  companyId: string;
+  companyName: string;
+  companyUrl: string;
+  city: string | null;
+  state: string | null;
+  gstNumber: string | null;
+  gstVerified: boolean;
+  trustSeal: boolean;
+  verifiedExporter: boolean;
+  leadingSupplier: boolean;
+  memberYears: number | null;
+}
@@ -0,0 +1,44 @@
+import { PlatformAdapter } from '../types';
+import { PLATFORM_LABELS } from '../metadata';
+import { searchMicText, searchMicImage, searchMicSuppliers, MicSearchResponse } from './service';
+
+export const madeInChinaAdapter: PlatformAdapter = {
+  platform: 'madeinchina',
+  label: PLATFORM_LABELS.madeinchina,
+  capabilities: {
+    textSearch: true,
+    imageSearch: true,
+    supplierSearch: true,
+    productDetail: false,
+    pagination: true,
+  },
+  pageSize: 36,
+  imageRequirements: {
+    format: 'jpeg',
+    maxDimension: 1600,
+    maxBytes: 3 * 1024 * 1024,
+    quality: 80,
+  },
+
+  async searchText(query, page = 1) {
+    return toPlatformResponse(await searchMicText(query, page), page);
+  },
+
+  async searchImage(image, page = 1) {
+    return toPlatformResponse(await searchMicImage(image, page), page);
+  },
+
+  async searchSuppliers(query, page = 1) {
+    const { suppliers, totalCount, hasMore } = await searchMicSuppliers(query, page);
+    return { suppliers, totalCount, page, hasMore };
+  },
+};
+
+function toPlatformResponse(response: MicSearchResponse, page: number) {
+  return {
+    products: response.unifiedProducts,
+    totalCount: response.totalCount,
+    page,
+    hasMore: response.hasMore,
+  };
+}
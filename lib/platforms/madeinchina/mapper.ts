@@ -21,7 +21,9 @@ function mapCompanyToProduct(company: MICCompany): UnifiedSupplier {
     description,
     price: null,
     currency: null,
+    priceRange: null,
     moq: null,
+    moqQuantity: null,
     images,
     products: (company.productList ?? []).map((p) => mapMICSubProductToUnified(p, company)),
     supplier: {
@@ -75,6 +77,8 @@ function formatLocation(city?: string | null, province?: string | null): string
 function buildPlatformSpecific(company: MICCompany): Record<string, unknown> {
   return {
     businessType: company.businessType,
+    isAuditedSupplier: company.isAuditedSupplier,
+    capabilityStars: company.capabilityStars,
     mainProducts: company.mainProducts,
     inquiryUrl: company.inquiryUrl,
     chatId: company.chatId,
@@ -92,7 +96,9 @@ function mapMICSubProductToUnified(product: MICProductSummary, company: MICCompa
     images: product.image ? [normalizeUrl(product.image, 'https://www.made-in-china.com')] : [],
     price: null, // Summary doesn't have price
     currency: null,
+    priceRange: null,
     moq: null,
+    moqQuantity: null,
     productUrl: normalizeUrl(product.url, 'https://www.made-in-china.com'),
     attributes: {},
     supplier: {
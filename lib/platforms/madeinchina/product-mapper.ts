@@ -1,3 +1,5 @@
+import { parseMoq } from '../moq';
+import { parsePrice } from '../price';
 import { UnifiedProduct } from '../types';
 
 export function mapMicToUnifiedProduct(rawProduct: any): UnifiedProduct {
@@ -5,6 +7,7 @@ export function mapMicToUnifiedProduct(rawProduct: any): UnifiedProduct {
 
     // Extract ID - usually not explicit in scrape, so use hash or just url part
     const id = rawProduct.productUrl ? extractMicId(rawProduct.productUrl) : 'unknown-' + Math.random().toString(36).substr(2, 9);
+    const priceRange = parsePrice(rawProduct.price);
 
     return {
         id: id,
@@ -15,8 +18,10 @@ export function mapMicToUnifiedProduct(rawProduct: any): UnifiedProduct {
             ? rawProduct.images
             : [rawProduct.imageUrl].filter(Boolean),
         price: rawProduct.price || null,
-        currency: detectCurrency(rawProduct.price),
+        currency: priceRange?.currency ?? null,
+        priceRange,
         moq: rawProduct.moq || null,
+        moqQuantity: parseMoq(rawProduct.moq),
         productUrl: rawProduct.productUrl || '',
         attributes: rawProduct.attributes || {},
         supplier: {
@@ -55,11 +60,3 @@ function extractMicCompanyId(url: string, name: string): string {
     }
     return name ? name.replace(/\s+/g, '-').toLowerCase() : 'unknown-supplier';
 }
-
-function detectCurrency(price: string | null): string | null {
-    if (!price) return null;
-    const normalized = price.trim();
-    if (/US\s?\$|USD/i.test(normalized)) return 'USD';
-    if (normalized.startsWith('$')) return 'USD';
-    return null;
-}
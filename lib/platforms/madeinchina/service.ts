@@ -1,9 +1,12 @@
 
 import { createProxyAgent } from "@/lib/proxy";
 import { mapMicToUnifiedProduct } from "@/lib/platforms/madeinchina/product-mapper";
-import { UnifiedProduct } from "@/lib/platforms/types";
+import { mapMICToUnified } from "@/lib/platforms/madeinchina/mapper";
+import { parseMICHTML } from "@/lib/platforms/madeinchina/parser";
+import { PreprocessedImage, UnifiedProduct, UnifiedSupplier } from "@/lib/platforms/types";
+import { PlatformSearchError, httpError, looksLikeCaptcha } from "@/lib/platforms/errors";
+import { getOrCreateImageHandle, invalidateImageHandle } from "@/lib/platforms/image-handles";
 import * as cheerio from "cheerio";
-import sharp from "sharp";
 
 export interface MicSearchResponse {
     unifiedProducts: UnifiedProduct[];
@@ -11,6 +14,14 @@ export interface MicSearchResponse {
     hasMore: boolean;
 }
 
+export interface MicSupplierSearchResponse {
+    suppliers: UnifiedSupplier[];
+    totalCount: number | undefined;
+    hasMore: boolean;
+}
+
+export const SUPPLIER_SEARCH_PAGE_SIZE = 20;
+
 export async function searchMicText(query: string, page: number = 1): Promise<MicSearchResponse> {
 
     // Check for empty query
@@ -31,12 +42,16 @@ export async function searchMicText(query: string, page: number = 1): Promise<Mi
     });
 
     if (!response.ok) {
-        throw new Error(`Made-in-China responded with status ${response.status}`);
+        throw httpError('Made-in-China', response);
     }
 
     const html = await response.text();
     const results = parseMicSearchResults(html);
 
+    if (results.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'Made-in-China returned a captcha page');
+    }
+
     const totalCount = extractTotalCount(html);
     const hasMore = calculateHasMore(totalCount, page, results.length);
 
@@ -47,57 +62,64 @@ export async function searchMicText(query: string, page: number = 1): Promise<Mi
     };
 }
 
-export async function searchMicImage(file: Blob, page: number = 1): Promise<MicSearchResponse> {
-    const originalBuffer = Buffer.from(await file.arrayBuffer());
-
-    // Process image with Sharp
-    const image = sharp(originalBuffer);
-
-    // Convert to JPEG with 80% quality
-    const processedBuffer = await image
-        .jpeg({ quality: 80 })
-        .toBuffer();
-
-    const processedImage = sharp(processedBuffer);
-    const processedMetadata = await processedImage.metadata();
+/**
+ * Company-level search (company-search listing pages), parsed by
+ * `parseMICHTML` and mapped by `mapMICToUnified`.
+ */
+export async function searchMicSuppliers(query: string, page: number = 1): Promise<MicSupplierSearchResponse> {
+    if (!query || !query.trim()) {
+        return { suppliers: [], totalCount: 0, hasMore: false };
+    }
 
-    const width = processedMetadata.width?.toString() || "800";
-    const height = processedMetadata.height?.toString() || "800";
-    const size = processedBuffer.length.toString();
-    const orgSize = originalBuffer.length.toString();
-
-    const uploadForm = new FormData();
-    const blob = new Blob([new Uint8Array(processedBuffer)], { type: "image/jpeg" });
-    uploadForm.append("multipartFile", blob, "image.jpg");
-    uploadForm.append("orgwidth", width);
-    uploadForm.append("orgheight", height);
-    uploadForm.append("zipsize", size);
-    uploadForm.append("orgsize", orgSize);
+    const keywordSegment = encodeURIComponent(query.trim()).replace(/%20/g, '+');
+    const url = `https://www.made-in-china.com/company-search/${keywordSegment}/C1/${page}.html`;
 
     const agent = createProxyAgent();
-    const uploadRes = await fetch("https://file.made-in-china.com/img-search/upload", {
-        method: "POST",
+    const response = await fetch(url, {
         headers: {
-            "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-            "Origin": "https://www.made-in-china.com",
-            "Referer": "https://www.made-in-china.com/"
+            'User-Agent':
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118.0.0.0 Safari/537.36',
+            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.8',
+            Referer: 'https://www.made-in-china.com',
         },
-        body: uploadForm,
         // @ts-expect-error - agent is supported in Node.js fetch
         agent,
+        cache: 'no-store',
     });
 
-    if (!uploadRes.ok) {
-        throw new Error(`Failed to upload image to MIC: ${uploadRes.status}`);
+    if (!response.ok) {
+        throw httpError('Made-in-China supplier search', response);
     }
 
-    const uploadData = await uploadRes.json();
-    if (!uploadData?.data?.url) {
-        console.error("MIC Upload Response:", uploadData);
-        throw new Error("Invalid response from MIC image upload");
+    const html = await response.text();
+    const parsed = parseMICHTML(html, query, page);
+    const suppliers = mapMICToUnified(parsed);
+
+    if (suppliers.length === 0 && looksLikeCaptcha(html)) {
+        throw new PlatformSearchError('captcha', 'Made-in-China returned a captcha page');
     }
 
-    const resultUrl = uploadData.data.url;
+    const totalCount = normalizeTotalCount(parsed.totalCount);
+    const hasMore = typeof totalCount === 'number'
+        ? page * SUPPLIER_SEARCH_PAGE_SIZE < totalCount
+        : suppliers.length === SUPPLIER_SEARCH_PAGE_SIZE;
+
+    return { suppliers, totalCount, hasMore };
+}
+
+interface MicImageHandle {
+    resultUrl: string;
+    imageId: string;
+}
+
+/**
+ * Image search. Expects a JPEG already preprocessed to the adapter's requirements.
+ * The image is uploaded once; later pages and repeat searches reuse its result URL.
+ */
+export async function searchMicImage(image: PreprocessedImage, page: number = 1): Promise<MicSearchResponse> {
+    const { resultUrl, imageId } = await getOrCreateImageHandle('madeinchina', image.hash, () => uploadMicImage(image));
+    const agent = createProxyAgent();
     let finalResults: any[] = [];
 
     if (page === 1) {
@@ -111,35 +133,36 @@ export async function searchMicImage(file: Blob, page: number = 1): Promise<MicS
         });
 
         if (!resultRes.ok) {
-            throw new Error(`Failed to fetch result page: ${resultRes.status}`);
+            invalidateImageHandle('madeinchina', image.hash);
+            throw httpError('Made-in-China image results', resultRes);
         }
 
         const html = await resultRes.text();
         finalResults = parseMicImageSearchResults(html);
-    } else {
+
+        if (finalResults.length === 0 && looksLikeCaptcha(html)) {
+            throw new PlatformSearchError('captcha', 'Made-in-China returned a captcha page');
+        }
+    } else if (imageId) {
         // Fetch Page > 1
-        const urlParts = resultUrl.split("/");
-        const filename = urlParts[urlParts.length - 1];
-        const imageId = filename.replace(".html", "");
-
-        if (imageId) {
-            const pageUrl = `https://www.made-in-china.com/img-search/ajax/${imageId}?leafCode=&colorCode=&page=${page}`;
-            const pageRes = await fetch(pageUrl, {
-                headers: {
-                    "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-                    "X-Requested-With": "XMLHttpRequest"
-                },
-                // @ts-expect-error - agent is supported in Node.js fetch
-                agent,
-            });
+        const pageUrl = `https://www.made-in-china.com/img-search/ajax/${imageId}?leafCode=&colorCode=&page=${page}`;
+        const pageRes = await fetch(pageUrl, {
+            headers: {
+                "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+                "X-Requested-With": "XMLHttpRequest"
+            },
+            // @ts-expect-error - agent is supported in Node.js fetch
+            agent,
+        });
 
-            if (pageRes.ok) {
-                const pageHtml = await pageRes.text();
-                finalResults = parseMicImageSearchResults(pageHtml);
-            } else {
-                console.warn(`Failed to fetch page ${page}: ${pageRes.status}`);
-            }
+        if (!pageRes.ok) {
+            console.warn(`Failed to fetch page ${page}: ${pageRes.status}`);
+            invalidateImageHandle('madeinchina', image.hash);
+            throw httpError('Made-in-China image results', pageRes);
         }
+
+        const pageHtml = await pageRes.text();
+        finalResults = parseMicImageSearchResults(pageHtml);
     }
 
     const hasMore = calculateHasMore(undefined, page, finalResults.length);
@@ -151,6 +174,43 @@ export async function searchMicImage(file: Blob, page: number = 1): Promise<MicS
     };
 }
 
+async function uploadMicImage(image: PreprocessedImage): Promise<MicImageHandle> {
+    const uploadForm = new FormData();
+    uploadForm.append("multipartFile", image.blob, "image.jpg");
+    uploadForm.append("orgwidth", image.width.toString());
+    uploadForm.append("orgheight", image.height.toString());
+    uploadForm.append("zipsize", image.bytes.toString());
+    uploadForm.append("orgsize", image.originalBytes.toString());
+
+    const agent = createProxyAgent();
+    const uploadRes = await fetch("https://file.made-in-china.com/img-search/upload", {
+        method: "POST",
+        headers: {
+            "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+            "Origin": "https://www.made-in-china.com",
+            "Referer": "https://www.made-in-china.com/"
+        },
+        body: uploadForm,
+        // @ts-expect-error - agent is supported in Node.js fetch
+        agent,
+    });
+
+    if (!uploadRes.ok) {
+        throw httpError('Made-in-China image upload', uploadRes);
+    }
+
+    const uploadData = await uploadRes.json();
+    if (!uploadData?.data?.url) {
+        console.error("MIC Upload Response:", uploadData);
+        throw new PlatformSearchError('parse', "Invalid response from MIC image upload");
+    }
+
+    // The result page is /img-search/<imageId>.html; later pages are fetched by imageId
+    const resultUrl: string = uploadData.data.url;
+    const filename = resultUrl.split("/").pop() ?? "";
+    return { resultUrl, imageId: filename.replace(".html", "") };
+}
+
 
 // --- Helper Functions ---
 
@@ -418,3 +478,13 @@ function calculateHasMore(totalCount: number | undefined, page: number, currentC
     }
     return currentCount >= PAGE_SIZE;
 }
+
+function normalizeTotalCount(total?: number | string): number | undefined {
+    if (typeof total === 'number') return total;
+    if (typeof total === 'string') {
+        const digits = total.replace(/[^0-9]/g, '');
+        const parsed = Number(digits);
+        if (digits && !Number.isNaN(parsed)) return parsed;
+    }
+    return undefined;
+}
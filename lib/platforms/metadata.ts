@@ -0,0 +1,28 @@
+import type { PlatformType } from './types';
+
+/**
+ * Display names for each platform. Safe to import from client components,
+ * unlike the adapter registry which pulls in server-only scrapers.
+ * This is the list of platform ids: `PlatformType` is derived from its keys.
+ * Server-side lists (agent prompt, tool schema) come from the registry.
+ */
+export const PLATFORM_LABELS = {
+  alibaba: 'Alibaba',
+  madeinchina: 'Made-in-China',
+  '1688': '1688',
+  globalsources: 'Global Sources',
+  dhgate: 'DHgate',
+  indiamart: 'IndiaMART',
+} as const satisfies Record<string, string>;
+
+/** Every platform, in display order */
+export const PLATFORMS = Object.keys(PLATFORM_LABELS) as PlatformType[];
+
+/**
+ * Platforms whose parsers have not yet been checked against real pages.
+ * They stay selectable but are only searched when asked for explicitly.
+ */
+export const OPT_IN_PLATFORMS: ReadonlySet<PlatformType> = new Set<PlatformType>(['1688', 'globalsources', 'dhgate', 'indiamart']);
+
+/** Platforms searched when the caller does not choose */
+export const DEFAULT_PLATFORMS = PLATFORMS.filter(platform => !OPT_IN_PLATFORMS.has(platform));
@@ -0,0 +1,42 @@
+import { MoqQuantity, MoqUnit } from './types';
+
+/**
+ * Shared minimum order parsing for every platform mapper.
+ * Handles Alibaba "Min. order: 2 pieces", MIC search "1,000 Pieces (MOQ)" and
+ * MIC `minOrder` "Min. Order: 5 Pieces", and 1688 "≥2件". Only the leading
+ * quantity counts: "2 Sets (40 pcs)" is 2 sets, not 240.
+ */
+
+const UNIT_ALIASES: [RegExp, MoqUnit][] = [
+    [/\bcontainers?$/, 'containers'],
+    [/^(pieces?|pcs?|units?|pairs?|items?|件|个|只|台|双|条|张|把)$/, 'pieces'],
+    [/^(sets?|套)$/, 'sets'],
+    [/^(meters?|metres?|m|square meters?|sq\.? ?m|m2|yards?|米|平方米)$/, 'meters'],
+    [/^(tons?|tonnes?|metric tons?|mt|吨)$/, 'tons'],
+];
+
+export function parseMoq(moq: string | null | undefined): MoqQuantity | null {
+    if (!moq) return null;
+
+    const text = moq
+        .replace(/min(imum)?\.?\s*order(\s*quantity)?\s*:?/i, '')
+        .replace(/\(MOQ\)/i, '')
+        .trim();
+
+    const match = text.match(/(\d[\d,]*(?:\.\d+)?)\s*([^()]*)/);
+    if (!match) return null;
+
+    const quantity = Number(match[1].replace(/,/g, ''));
+    if (!Number.isFinite(quantity)) return null;
+
+    const unitLabel = match[2].replace(/\s+/g, ' ').trim() || null;
+    return { quantity, unit: normalizeMoqUnit(unitLabel), unitLabel };
+}
+
+export function normalizeMoqUnit(label: string | null): MoqUnit {
+    // A bare number ("100") is a count of pieces on every platform
+    if (!label) return 'pieces';
+    const normalized = label.toLowerCase().replace(/\.$/, '').trim();
+    const match = UNIT_ALIASES.find(([pattern]) => pattern.test(normalized));
+    return match ? match[1] : 'other';
+}
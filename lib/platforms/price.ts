@@ -0,0 +1,68 @@
+import { PriceRange } from './types';
+
+/**
+ * Shared price parsing for every platform mapper.
+ * Handles strings like "US$1.20-3.50 / Piece", "$0.5 - 2", "¥12.00/件"
+ * or "₹ 250/ Kg"; the price stays a raw string for display and the parsed
+ * range is attached alongside it.
+ */
+
+// Checked in order: prefixed dollars before the bare "$" fallback
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/US\s?\$|USD/i, 'USD'],
+    [/HK\$|HKD/i, 'HKD'],
+    [/SG\$|SGD/i, 'SGD'],
+    [/CA?\$|CAD/i, 'CAD'],
+    [/AU?\$|AUD/i, 'AUD'],
+    [/€|EUR/i, 'EUR'],
+    [/£|GBP/i, 'GBP'],
+    [/₹|INR|\bRs\.?/i, 'INR'],
+    [/[¥￥]|CNY|RMB/i, 'CNY'],
+    [/\$/, 'USD'],
+];
+
+const NUMBER_PATTERN = /\d[\d,]*(?:\.\d+)?/g;
+
+export function detectCurrency(price: string | null | undefined): string | null {
+    if (!price) return null;
+    const match = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(price));
+    return match ? match[1] : null;
+}
+
+/**
+ * Parse a price string into `{min, max, currency, unit}`.
+ * Returns null when the string has no number ("Negotiable", "Contact supplier").
+ */
+export function parsePrice(price: string | null | undefined): PriceRange | null {
+    if (!price) return null;
+
+    const [amount, unitPart] = splitUnit(price);
+    const numbers = (amount.match(NUMBER_PATTERN) ?? [])
+        .map(value => Number(value.replace(/,/g, '')))
+        .filter(value => Number.isFinite(value));
+
+    if (numbers.length === 0) return null;
+
+    return {
+        min: Math.min(...numbers.slice(0, 2)),
+        max: Math.max(...numbers.slice(0, 2)),
+        currency: detectCurrency(amount),
+        unit: normalizeUnit(unitPart),
+    };
+}
+
+/**
+ * Split "US$1.20-3.50 / Piece" into the amount and the unit after "/" or "per".
+ */
+function splitUnit(price: string): [string, string | null] {
+    const match = price.match(/^(.*?)(?:\/|\bper\b)(.*)$/i);
+    if (!match) return [price, null];
+    return [match[1], match[2]];
+}
+
+function normalizeUnit(unit: string | null): string | null {
+    if (!unit) return null;
+    // Drop trailing notes such as "(Min. Order)"
+    const cleaned = unit.replace(/\(.*\)/g, '').replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+}
@@ -0,0 +1,55 @@
+import { PlatformAdapter, PlatformType } from './types';
+import { OPT_IN_PLATFORMS } from './metadata';
+import { alibabaAdapter } from './alibaba/adapter';
+import { madeInChinaAdapter } from './madeinchina/adapter';
+import { ali1688Adapter } from './1688/adapter';
+import { globalSourcesAdapter } from './globalsources/adapter';
+import { dhgateAdapter } from './dhgate/adapter';
+import { indiaMartAdapter } from './indiamart/adapter';
+
+/**
+ * Platform adapter registry.
+ * Adding a marketplace means writing its adapter module, registering it here
+ * and giving it a label in `metadata.ts` (which also defines its `PlatformType`).
+ * The agent prompt and search tool schema read the platform list from here.
+ */
+
+const adapters = new Map<PlatformType, PlatformAdapter>();
+
+export function registerPlatformAdapter(adapter: PlatformAdapter): void {
+    adapters.set(adapter.platform, adapter);
+}
+
+export function getPlatformAdapter(platform: PlatformType): PlatformAdapter | undefined {
+    return adapters.get(platform);
+}
+
+export function getPlatformAdapters(): PlatformAdapter[] {
+    return Array.from(adapters.values());
+}
+
+export function getRegisteredPlatforms(): PlatformType[] {
+    return Array.from(adapters.keys());
+}
+
+/**
+ * Registered platforms minus the opt-in ones; used when no platforms are given.
+ */
+export function getDefaultPlatforms(): PlatformType[] {
+    return getRegisteredPlatforms().filter(platform => !OPT_IN_PLATFORMS.has(platform));
+}
+
+/**
+ * Keep only platforms that have a registered adapter, preserving order.
+ */
+export function resolvePlatforms(platforms: unknown): PlatformType[] {
+    if (!Array.isArray(platforms)) return getDefaultPlatforms();
+    return platforms.filter((p): p is PlatformType => adapters.has(p as PlatformType));
+}
+
+registerPlatformAdapter(alibabaAdapter);
+registerPlatformAdapter(madeInChinaAdapter);
+registerPlatformAdapter(ali1688Adapter);
+registerPlatformAdapter(globalSourcesAdapter);
+registerPlatformAdapter(dhgateAdapter);
+registerPlatformAdapter(indiaMartAdapter);
@@ -1,11 +1,71 @@
-export type PlatformType = 'alibaba' | 'madeinchina';
+import type { PLATFORM_LABELS } from './metadata';
+
+export type PlatformType = keyof typeof PLATFORM_LABELS;
 export type SearchInputType = 'text' | 'image';
 
+/**
+ * `products` runs product searches and groups the hits by supplier;
+ * `suppliers` queries the platforms' company-level search directly.
+ */
+export type SearchType = 'products' | 'suppliers';
+
 export interface SearchInput {
   id: string;
   type: SearchInputType;
   value: string; // text query or image name
   file?: File; // for client-side usage, might not be serializable from server
+  regions?: ImageRegion[]; // image inputs: the detected regions the user chose to search
+  crop?: ImageCrop; // image inputs: only search this part of the image
+  excludeTerms?: string[]; // drop products whose title or attributes mention any of these
+}
+
+/**
+ * Crop box as fractions (0..1) of the EXIF-rotated image, so it stays valid
+ * whatever size each platform resizes the image to.
+ */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What a platform's image upload accepts. Every image is converted to
+ * `format`, fitted within `maxDimension` on its longest side and re-encoded
+ * until it is at most `maxBytes`.
+ */
+export interface ImageRequirements {
+  format: 'jpeg' | 'png' | 'webp';
+  maxDimension: number;
+  maxBytes: number;
+  quality: number; // starting encoder quality, 1..100
+}
+
+/** An image already normalized to an adapter's `ImageRequirements` */
+export interface PreprocessedImage {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  originalBytes: number;
+  hash: string; // sha256 of the processed bytes, keys reusable upload handles
+}
+
+/**
+ * An object detected in an uploaded image by Alibaba's region detection.
+ * `raw` is sent back unchanged when searching; `box` is parsed from it for
+ * drawing, in pixels of the uploaded image (null when the shape is unknown).
+ */
+export interface ImageRegion {
+  id: string;
+  box: { x: number; y: number; width: number; height: number } | null;
+  raw: unknown;
+}
+
+export interface ImageSearchOptions {
+  regions?: ImageRegion[];
 }
 
 export interface UnifiedSupplier {
@@ -15,7 +75,9 @@ export interface UnifiedSupplier {
   description?: string;
   price: string | null;
   currency: string | null;
+  priceRange: PriceRange | null;
   moq: string | null;
+  moqQuantity: MoqQuantity | null;
   images: string[];
   products: UnifiedProduct[];
   supplier: {
@@ -28,8 +90,80 @@ export interface UnifiedSupplier {
   url: string;
   platformSpecific: Record<string, unknown>;
   matchedInputIds?: string[];
+  /**
+   * Set when entity resolution merged this supplier with the same company on
+   * other platforms. Lists every linked storefront, including the primary one.
+   */
+  storefronts?: SupplierStorefront[];
+  mergeProposalId?: string;
+}
+
+/**
+ * A price string such as "US$1.20-3.50 / Piece" parsed into numbers.
+ * `max` equals `min` for a single price.
+ */
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string | null;
+  unit: string | null;
+}
+
+/**
+ * One quantity break of a per-piece price list: "10 - 49 Pieces US $3.55".
+ * `maxQuantity` is null for the open-ended last tier ("50+").
+ */
+export interface PriceTier {
+  minQuantity: number;
+  maxQuantity: number | null;
+  price: number;
+  currency: string | null;
+}
+
+/**
+ * Shipping cost and delivery window quoted on a listing, when the platform shows one.
+ */
+export interface ShippingEstimate {
+  free: boolean;
+  cost: number | null;
+  currency: string | null;
+  method: string | null;
+  minDays: number | null;
+  maxDays: number | null;
 }
 
+export type MoqUnit = 'pieces' | 'sets' | 'meters' | 'tons' | 'containers' | 'other';
+
+/**
+ * A minimum order string such as "Min. order: 2 sets" or "1,000 Pieces (MOQ)"
+ * parsed into a quantity. `unitLabel` keeps the listing's own wording.
+ */
+export interface MoqQuantity {
+  quantity: number;
+  unit: MoqUnit;
+  unitLabel: string | null;
+}
+
+export interface SupplierStorefront {
+  platform: PlatformType;
+  supplierId: string;
+  name: string;
+  url: string;
+  location?: string;
+}
+
+/**
+ * A suggestion that two suppliers from different platforms are the same company.
+ */
+export interface SupplierMergeProposal {
+  id: string;
+  supplierKeys: [string, string];
+  confidence: number; // 0..1
+  reasons: string[];
+}
+
+export type MergeDecision = 'accepted' | 'rejected';
+
 export interface UnifiedProduct {
   id: string;
   platform: PlatformType;
@@ -38,9 +172,14 @@ export interface UnifiedProduct {
   images: string[];
   price: string | null;
   currency: string | null;
+  priceRange: PriceRange | null;
   moq: string | null;
+  moqQuantity: MoqQuantity | null;
   productUrl: string;
   attributes: Record<string, string>;
+  // Quantity breaks and shipping, only on platforms that list them (DHgate)
+  priceTiers?: PriceTier[];
+  shipping?: ShippingEstimate | null;
   supplier: {
     id: string;
     name: string;
@@ -62,16 +201,108 @@ export interface SearchResult {
   sourceInputId?: string;
 }
 
+/**
+ * Paging position for one (input, platform) pair of a unified search.
+ * `page` is the last page fetched; the next request asks for `page + 1`.
+ */
+export interface SearchCursor {
+  inputId: string;
+  platform: PlatformType;
+  page: number;
+  hasMore: boolean;
+}
+
 export interface AggregatedSearchResult {
   inputs: SearchInput[];
   results: UnifiedSupplier[]; // Flattened results for unified view
+  searchType: SearchType;
+  cursors: SearchCursor[];
+  hasMore: boolean;
+  statuses: SearchTaskStatus[];
   timestamp: number;
 }
 
+export type SearchErrorKind = 'http' | 'parse' | 'captcha' | 'timeout' | 'unknown';
+
+export interface SearchTaskError {
+  kind: SearchErrorKind;
+  message: string;
+  httpStatus?: number;
+}
+
+/**
+ * Outcome of one (input, platform) task of a unified search.
+ * `running` only appears while a search is streaming; `skipped` means the
+ * platform does not support the input type (e.g. no image search).
+ */
+export interface SearchTaskStatus {
+  inputId: string;
+  platform: PlatformType;
+  state: 'running' | 'done' | 'failed' | 'skipped';
+  resultCount: number;
+  durationMs: number;
+  error?: SearchTaskError;
+  cache?: SearchCacheState; // set on finished `done` tasks
+  cachedAt?: number; // when a cache hit was originally fetched
+  excludedCount?: number; // results dropped by exclusion terms
+}
+
+/**
+ * `hit` served from the search result cache, `miss` fetched live and stored,
+ * `refresh` fetched live because the caller forced a refresh.
+ */
+export type SearchCacheState = 'hit' | 'miss' | 'refresh';
+
+/**
+ * NDJSON events emitted by /api/search/unified, one per line.
+ * `partial` carries the suppliers grouped from a single finished task;
+ * clients merge them into what is already shown.
+ */
+export type UnifiedSearchEvent =
+  | { type: 'start'; inputs: SearchInput[]; tasks: SearchTaskStatus[]; timestamp: number }
+  | { type: 'partial'; task: SearchTaskStatus; results: UnifiedSupplier[]; cursor: SearchCursor; timestamp: number }
+  | { type: 'complete'; cursors: SearchCursor[]; hasMore: boolean; timestamp: number }
+  | { type: 'error'; error: string; timestamp: number };
+
+export interface PlatformSearchResponse {
+  products: UnifiedProduct[];
+  totalCount?: number;
+  page: number;
+  hasMore: boolean;
+}
+
+export interface PlatformSupplierSearchResponse {
+  suppliers: UnifiedSupplier[];
+  totalCount?: number;
+  page: number;
+  hasMore: boolean;
+}
+
+export interface PlatformCapabilities {
+  textSearch: boolean;
+  imageSearch: boolean;
+  supplierSearch: boolean;
+  productDetail: boolean;
+  pagination: boolean;
+}
+
+/**
+ * A marketplace integration. Each platform module exports one adapter and
+ * registers it in `lib/platforms/registry.ts`; unified search only talks to
+ * platforms through this interface.
+ */
 export interface PlatformAdapter {
   platform: PlatformType;
-  search(query: string, page?: number): Promise<SearchResult>;
-  mapToUnified(payload: unknown): UnifiedSupplier[];
+  label: string;
+  capabilities: PlatformCapabilities;
+  pageSize: number;
+  /** Required when `capabilities.imageSearch` is true */
+  imageRequirements?: ImageRequirements;
+  searchText(query: string, page?: number): Promise<PlatformSearchResponse>;
+  searchImage?(image: PreprocessedImage, page?: number, options?: ImageSearchOptions): Promise<PlatformSearchResponse>;
+  searchSuppliers?(query: string, page?: number): Promise<PlatformSupplierSearchResponse>;
+  /** Full listing for one product page; required when `capabilities.productDetail` is true */
+  getProductDetail?(productUrl: string): Promise<UnifiedProduct>;
 }
 
 export type FilterType = 'select' | 'range' | 'boolean';
@@ -80,16 +311,86 @@ export interface FilterDefinition {
   id: string;
   label: string;
   type: FilterType;
-  platform: PlatformType;
+  // Omitted for cross-platform filters that every platform maps into
+  platform?: PlatformType;
   options?: { label: string; value: string | number | boolean }[];
   min?: number;
   max?: number;
+  step?: number;
   unit?: string;
+  // Shown under the filter, e.g. which suppliers it cannot judge and lets through
+  note?: string;
 }
 
 export interface FilterValue {
   filterId: string;
-  value: string | number | boolean | { min: number; max: number };
+  // `currency` tells which currency a price range was entered in
+  value: string | number | boolean | { min: number; max: number; currency?: string };
+}
+
+/**
+ * A search stored with its owner and re-run on a schedule.
+ * Only text inputs are saved; uploaded images are not kept.
+ */
+export interface SavedSearch {
+  id: string;
+  ownerId: string;
+  name: string;
+  inputs: SearchInput[];
+  platforms: PlatformType[];
+  searchType: SearchType;
+  filters: FilterValue[];
+  excludeTerms: string[];
+  intervalDays: number;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+/** The user-editable fields of a saved search */
+export type SavedSearchDraft = Pick<
+  SavedSearch,
+  'name' | 'inputs' | 'platforms' | 'searchType' | 'filters' | 'excludeTerms' | 'intervalDays'
+>;
+
+export interface SnapshotSupplier {
+  key: string; // getSupplierKey of the supplier
+  name: string;
+  platform: PlatformType;
+  url: string;
+  productCount: number;
+}
+
+export interface SnapshotProduct {
+  key: string; // platform + product id
+  title: string;
+  platform: PlatformType;
+  supplierName: string;
+  url: string;
+  price: string | null;
+}
+
+/** The suppliers and products one saved-search run returned */
+export interface SearchSnapshot {
+  suppliers: SnapshotSupplier[];
+  products: SnapshotProduct[];
+}
+
+/** What changed between two runs of a saved search */
+export interface SearchDiff {
+  addedSuppliers: SnapshotSupplier[];
+  removedSuppliers: SnapshotSupplier[];
+  addedProducts: SnapshotProduct[];
+  removedProducts: SnapshotProduct[];
+}
+
+export interface SavedSearchRun {
+  id: string;
+  savedSearchId: string;
+  ranAt: string;
+  resultCount: number;
+  failedTasks: number;
+  snapshot: SearchSnapshot;
+  diff: SearchDiff | null; // null for the first run, which has nothing to compare against
 }
 
 export interface FilterCriteria {
@@ -132,7 +132,10 @@ export function parseProductList(html: string): AlibabaProductItem[] {
 }
 
 /**
- * Parse detailed product information from product detail page
+ * Parse detailed product information from product detail page.
+ * Reads the page's embedded data first (`window.detailData`, then JSON-LD);
+ * the DOM selectors rely on utility classes that change with Alibaba deploys,
+ * so they are only the last resort. `strategy` reports which source was used.
  */
 export function parseProductDetail(html: string, url: string): AlibabaProductDetail {
     const $ = cheerio.load(html);
@@ -141,6 +144,232 @@ export function parseProductDetail(html: string, url: string): AlibabaProductDet
     const idMatch = url.match(/_(\d+)\.html/);
     const id = idMatch ? idMatch[1] : '';
 
+    return parseDetailData(html, id, url) ??
+        parseJsonLdDetail($, id, url) ??
+        parseDetailDom($, id, url);
+}
+
+// Shape of the `window.detailData` payload; only the fields read here are typed
+interface DetailDataPayload {
+    globalData?: {
+        product?: {
+            productId?: string | number;
+            subject?: string;
+            mediaItems?: { type?: string; imageUrl?: { big?: string; normal?: string } }[];
+            price?: {
+                productLadderPrices?: { min?: number; max?: number; price?: number; formatPrice?: string }[];
+            };
+            productBasicProperties?: { attrName?: string; attrValue?: string }[];
+            productKeyIndustryProperties?: { attrName?: string; attrValue?: string }[];
+            sku?: {
+                skuAttrs?: { name?: string; values?: { name?: string; imageUrl?: string }[] }[];
+            };
+        };
+        seller?: {
+            companyName?: string;
+            companyRegisterCountry?: string;
+        };
+        trade?: {
+            leadTimeInfo?: {
+                ladderPeriodList?: { min?: number; max?: number; processPeriod?: number | string }[];
+            };
+        };
+    };
+}
+
+/**
+ * Source text of the object literal assigned after `assignment`, found by
+ * matching braces outside of string literals. A lazy regex would stop at the
+ * first "}" followed by something that looks like the end of the statement,
+ * which payloads containing "};" or "window." inside strings can fake.
+ */
+function extractAssignedObject(html: string, assignment: RegExp): string | null {
+    const match = assignment.exec(html);
+    if (!match) return null;
+
+    const start = match.index + match[0].length;
+    if (html[start] !== '{') return null;
+
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = start; i < html.length; i++) {
+        const char = html[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            return html.slice(start, i + 1);
+        }
+    }
+    return null;
+}
+
+/**
+ * Primary source: the `window.detailData` object the product page renders from.
+ * Returns null when the payload is missing, unparseable or has no title.
+ */
+function parseDetailData(html: string, id: string, url: string): AlibabaProductDetail | null {
+    const json = extractAssignedObject(html, /window\.detailData\s*=\s*/);
+    if (!json) return null;
+
+    let payload: DetailDataPayload;
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        return null;
+    }
+
+    const product = payload.globalData?.product;
+    const title = product?.subject?.trim();
+    if (!product || !title) return null;
+
+    const pricing: AlibabaPricingTier[] = (product.price?.productLadderPrices ?? [])
+        .filter(tier => tier.min !== undefined && (tier.formatPrice || tier.price !== undefined))
+        .map(tier => ({
+            quantity: formatQuantityRange(tier.min!, tier.max),
+            price: tier.formatPrice || `$${tier.price}`,
+        }));
+
+    const mediaUrls = (product.mediaItems ?? [])
+        .filter(item => !item.type || item.type === 'image')
+        .map(item => normalizeImageUrl(item.imageUrl?.big || item.imageUrl?.normal))
+        .filter((src): src is string => Boolean(src));
+
+    const attributes: Record<string, string> = {};
+    [...(product.productKeyIndustryProperties ?? []), ...(product.productBasicProperties ?? [])].forEach(prop => {
+        if (prop.attrName && prop.attrValue && !attributes[prop.attrName]) {
+            attributes[prop.attrName] = prop.attrValue;
+        }
+    });
+
+    const leadTime: AlibabaLeadTime[] = (payload.globalData?.trade?.leadTimeInfo?.ladderPeriodList ?? [])
+        .filter(period => period.min !== undefined && period.processPeriod !== undefined)
+        .map(period => ({
+            quantity: formatQuantityRange(period.min!, period.max),
+            days: String(period.processPeriod),
+        }));
+
+    const variations: AlibabaVariation[] = (product.sku?.skuAttrs ?? [])
+        .map(attr => ({
+            name: attr.name ?? '',
+            options: (attr.values ?? [])
+                .filter(value => value.name)
+                .map(value => ({ label: value.name!, imageUrl: normalizeImageUrl(value.imageUrl) })),
+        }))
+        .filter(variation => variation.name && variation.options.length > 0);
+
+    const seller = payload.globalData?.seller;
+
+    return {
+        id: id || String(product.productId ?? ''),
+        url,
+        title,
+        pricing,
+        attributes,
+        specs: [],
+        mediaUrls,
+        supplierName: seller?.companyName || undefined,
+        supplierLocation: seller?.companyRegisterCountry || undefined,
+        leadTime: leadTime.length > 0 ? leadTime : undefined,
+        variations: variations.length > 0 ? variations : undefined,
+        strategy: 'embedded-json',
+    };
+}
+
+// schema.org Product as emitted in <script type="application/ld+json">
+interface JsonLdProduct {
+    '@type'?: string | string[];
+    name?: string;
+    image?: string | string[];
+    brand?: { name?: string } | string;
+    offers?: JsonLdOffer | JsonLdOffer[];
+    additionalProperty?: { name?: string; value?: string | number }[];
+}
+
+interface JsonLdOffer {
+    price?: string | number;
+    lowPrice?: string | number;
+    highPrice?: string | number;
+    priceCurrency?: string;
+    eligibleQuantity?: { minValue?: number; maxValue?: number };
+    seller?: { name?: string };
+}
+
+/**
+ * Second source: a JSON-LD Product block. Thinner than `detailData` (no lead
+ * time or variations), but not tied to the page's CSS.
+ */
+function parseJsonLdDetail($: cheerio.CheerioAPI, id: string, url: string): AlibabaProductDetail | null {
+    const product = $('script[type="application/ld+json"]').toArray()
+        .flatMap(el => {
+            try {
+                const data = JSON.parse($(el).text());
+                return Array.isArray(data) ? data : data['@graph'] ?? [data];
+            } catch {
+                return [];
+            }
+        })
+        .find((item: JsonLdProduct) => [item?.['@type']].flat().includes('Product')) as JsonLdProduct | undefined;
+
+    const title = product?.name?.trim();
+    if (!product || !title) return null;
+
+    const offers = [product.offers ?? []].flat();
+    const pricing: AlibabaPricingTier[] = offers
+        .map(offer => {
+            const low = offer.lowPrice ?? offer.price;
+            if (low === undefined) return null;
+            const high = offer.highPrice !== undefined && offer.highPrice !== low ? `-${offer.highPrice}` : '';
+            const currency = offer.priceCurrency && offer.priceCurrency !== 'USD' ? `${offer.priceCurrency} ` : '$';
+            const min = offer.eligibleQuantity?.minValue;
+            return {
+                quantity: min !== undefined ? formatQuantityRange(min, offer.eligibleQuantity?.maxValue) : '',
+                price: `${currency}${low}${high}`,
+            };
+        })
+        .filter((tier): tier is AlibabaPricingTier => tier !== null);
+
+    const attributes: Record<string, string> = {};
+    (product.additionalProperty ?? []).forEach(prop => {
+        if (prop.name && prop.value !== undefined) attributes[prop.name] = String(prop.value);
+    });
+
+    const brand = typeof product.brand === 'string' ? product.brand : product.brand?.name;
+
+    return {
+        id,
+        url,
+        title,
+        pricing,
+        attributes,
+        specs: [],
+        mediaUrls: [product.image ?? []].flat().map(normalizeImageUrl).filter((src): src is string => Boolean(src)),
+        supplierName: offers.find(offer => offer.seller?.name)?.seller?.name || brand || undefined,
+        strategy: 'json-ld',
+    };
+}
+
+/**
+ * "2 - 99" for a bounded tier, ">= 100" for the open-ended last one.
+ */
+function formatQuantityRange(min: number, max: number | undefined): string {
+    if (max === undefined || max < 0) return `>= ${min}`;
+    return max === min ? String(min) : `${min} - ${max}`;
+}
+
+function normalizeImageUrl(src: string | undefined): string | undefined {
+    if (!src) return undefined;
+    return src.startsWith('//') ? `https:${src}` : src;
+}
+
+/**
+ * Fallback: read the rendered DOM.
+ */
+function parseDetailDom($: cheerio.CheerioAPI, id: string, url: string): AlibabaProductDetail {
     // Title
     const title = $('h1').first().attr('title') || $('h1').first().text().trim();
 
@@ -286,6 +515,7 @@ export function parseProductDetail(html: string, url: string): AlibabaProductDet
         variations: variations.length > 0 ? variations : undefined,
         certifications: certifications.length > 0 ? certifications : undefined,
         customization: customization.length > 0 ? customization : undefined,
+        strategy: 'dom',
     };
 }
 
@@ -37,6 +37,12 @@ export interface AlibabaVariation {
     }[];
 }
 
+/**
+ * Which source a product detail was read from, most reliable first:
+ * the `window.detailData` payload, the JSON-LD Product block, or DOM selectors.
+ */
+export type AlibabaDetailStrategy = 'embedded-json' | 'json-ld' | 'dom';
+
 export interface AlibabaProductDetail {
     id: string;
     url: string;
@@ -54,4 +60,5 @@ export interface AlibabaProductDetail {
     variations?: AlibabaVariation[];
     certifications?: string[];
     customization?: string[];
+    strategy: AlibabaDetailStrategy;
 }
@@ -51,6 +51,7 @@ try {
     const testUrl = 'https://www.alibaba.com/product-detail/Luxury-Living-Room-Furniture-3-Seater_1600930741831.html';
     const detail = parseProductDetail(prodHtml, testUrl);
 
+    console.log(`   Strategy: ${detail.strategy}`);
     console.log(`   Title: ${detail.title.slice(0, 60)}...`);
     console.log(`   ID: ${detail.id}`);
     console.log(`   Supplier: ${detail.supplierName || 'N/A'} (${detail.supplierLocation || 'N/A'})`);
@@ -69,4 +70,57 @@ try {
     console.error('   Error:', e instanceof Error ? e.message : e);
 }
 
+// Test parseProductDetail on pages with embedded data
+console.log('4. Testing parseProductDetail strategies...');
+[
+    { file: 'ab-prod-detaildata.html', expected: 'embedded-json' },
+    { file: 'ab-prod-jsonld.html', expected: 'json-ld' },
+    { file: 'ab-prod.html', expected: 'dom' },
+].forEach(({ file, expected }) => {
+    try {
+        const html = fs.readFileSync(path.join(docsDir, file), 'utf-8');
+        const detail = parseProductDetail(html, 'https://www.alibaba.com/product-detail/Test_1600930741831.html');
+        const status = detail.strategy === expected ? 'OK' : `FAILED (expected ${expected})`;
+
+        console.log(`   ${file}: ${detail.strategy} ${status}`);
+        console.log(`     Title: ${detail.title.slice(0, 60)}`);
+        console.log(`     Pricing tiers: ${detail.pricing.map(p => `${p.quantity}: ${p.price}`).join(', ') || 'none'}`);
+        console.log(`     Attributes: ${Object.keys(detail.attributes).length}, Media URLs: ${detail.mediaUrls.length}`);
+        console.log(`     Supplier: ${detail.supplierName || 'N/A'}`);
+    } catch (e) {
+        console.error(`   ${file} error:`, e instanceof Error ? e.message : e);
+    }
+});
+
+// ab-prod.html is a Firecrawl `html` capture, which strips every <script>, so
+// it has no detailData of its own. Inject a pretty-printed payload whose
+// strings contain "};", "window." and "</script>"-like text to check that the
+// object is cut at its real closing brace.
+console.log('\n5. Testing detailData extraction in ab-prod.html...');
+try {
+    const html = fs.readFileSync(path.join(docsDir, 'ab-prod.html'), 'utf-8');
+    const payload = {
+        globalData: {
+            product: {
+                subject: 'Injected {subject}; window.location = "x"',
+                price: { productLadderPrices: [{ min: 2, max: 99, formatPrice: '$1.20' }, { min: 100, max: -1, formatPrice: '$0.95' }] },
+                productBasicProperties: [{ attrName: 'Note', attrValue: 'ends with };window.other = 1 </script>' }],
+            },
+            seller: { companyName: 'O\'Brien "Quoted" Co.' },
+        },
+    };
+    const script = `<script>\nwindow.detailData = ${JSON.stringify(payload, null, 4).replace(/<\//g, '<\\/')};\nwindow.other = {};\n</script>`;
+    const detail = parseProductDetail(html.replace('</body>', `${script}</body>`), 'https://www.alibaba.com/product-detail/Test_1600930741831.html');
+    const ok = detail.strategy === 'embedded-json' &&
+        detail.title === payload.globalData.product.subject &&
+        detail.pricing.length === 2 &&
+        detail.supplierName === payload.globalData.seller.companyName;
+
+    console.log(`   ab-prod.html + multi-line detailData: ${detail.strategy} ${ok ? 'OK' : 'FAILED'}`);
+    console.log(`     Title: ${detail.title}`);
+    console.log(`     Supplier: ${detail.supplierName}`);
+} catch (e) {
+    console.error('   ab-prod.html error:', e instanceof Error ? e.message : e);
+}
+
 console.log('\n=== Test Complete ===');
@@ -0,0 +1,73 @@
+import { PriceRange } from '@/lib/platforms/types';
+import currencyRates from './currency-rates.json';
+
+/**
+ * Offline currency conversion.
+ * Rates come from the bundled `currency-rates.json` (units per 1 USD) and
+ * can be edited locally; nothing is fetched at runtime.
+ */
+
+export type DisplayCurrency = 'USD' | 'EUR' | 'INR';
+
+export const DISPLAY_CURRENCIES: { value: DisplayCurrency; label: string }[] = [
+    { value: 'USD', label: 'USD ($)' },
+    { value: 'EUR', label: 'EUR (€)' },
+    { value: 'INR', label: 'INR (₹)' },
+];
+
+const RATES: Record<string, number> = currencyRates.rates;
+
+export const RATES_UPDATED_AT = currencyRates.updatedAt;
+
+/**
+ * Convert an amount between two currencies through the USD base.
+ * Returns null when either currency is missing from the rate table.
+ */
+export function convertAmount(amount: number, from: string, to: string): number | null {
+    if (from === to) return amount;
+    const fromRate = RATES[from];
+    const toRate = RATES[to];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+}
+
+/**
+ * Convert a parsed price range. A range without a detected currency cannot be
+ * converted and returns null.
+ */
+export function convertPriceRange(range: PriceRange | null, to: DisplayCurrency): PriceRange | null {
+    if (!range?.currency) return null;
+    const min = convertAmount(range.min, range.currency, to);
+    const max = convertAmount(range.max, range.currency, to);
+    if (min === null || max === null) return null;
+    return { ...range, min, max, currency: to };
+}
+
+/**
+ * Format a range as e.g. "€1.10 - €3.22 / Piece".
+ */
+export function formatPriceRange(range: PriceRange): string {
+    const format = (value: number) => range.currency
+        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: range.currency, maximumFractionDigits: 2 }).format(value)
+        : value.toFixed(2);
+
+    const amount = range.min === range.max ? format(range.min) : `${format(range.min)} - ${format(range.max)}`;
+    return range.unit ? `${amount} / ${range.unit}` : amount;
+}
+
+/**
+ * The price to show in the display currency, plus the original string when a
+ * conversion happened. Falls back to the raw price when it cannot be converted.
+ */
+export function getDisplayPrice(
+    price: string | null,
+    range: PriceRange | null,
+    to: DisplayCurrency
+): { display: string | null; original: string | null } {
+    if (range?.currency === to) return { display: price, original: null };
+
+    const converted = convertPriceRange(range, to);
+    if (!converted) return { display: price, original: null };
+
+    return { display: formatPriceRange(converted), original: price };
+}
@@ -0,0 +1,217 @@
+import {
+    MergeDecision,
+    SupplierMergeProposal,
+    SupplierStorefront,
+    UnifiedSupplier,
+} from '@/lib/platforms/types';
+import { getSupplierKey } from '@/lib/search/merge-service';
+
+/**
+ * Cross-platform supplier entity resolution.
+ * Proposes merges between suppliers on different platforms that look like the
+ * same company, and applies the user's accept / split decisions.
+ */
+
+// Minimum confidence for a pair to be proposed as a merge
+const MERGE_THRESHOLD = 0.7;
+
+// Legal-form and filler words that differ between listings of the same company
+const COMPANY_NAME_NOISE = new Set([
+    'co', 'company', 'ltd', 'limited', 'llc', 'inc', 'incorporated', 'corp', 'corporation',
+    'plc', 'gmbh', 'group', 'holdings', 'the', 'and',
+]);
+
+// Country words say nothing about whether two locations match
+const LOCATION_NOISE = new Set(['china', 'cn', 'prc', 'mainland', 'india', 'in']);
+
+export function normalizeCompanyName(name: string): string {
+    return tokenize(name)
+        .filter(token => !COMPANY_NAME_NOISE.has(token))
+        .join(' ');
+}
+
+export function getSupplierEntityKey(supplier: UnifiedSupplier): string {
+    return getSupplierKey(supplier.platform, supplier.supplier.id, supplier.name);
+}
+
+/**
+ * Compare every pair of suppliers from different platforms and propose merges.
+ * Each supplier appears in at most one proposal (highest confidence wins).
+ */
+export function proposeSupplierMerges(suppliers: UnifiedSupplier[]): SupplierMergeProposal[] {
+    const profiles = suppliers
+        .filter(s => !s.storefronts)
+        .map(s => ({
+            key: getSupplierEntityKey(s),
+            platform: s.platform,
+            nameTokens: normalizeCompanyName(s.supplier.name || s.name).split(' ').filter(Boolean),
+            locationTokens: tokenize(s.supplier.location ?? '').filter(t => !LOCATION_NOISE.has(t)),
+            imageFingerprints: new Set(collectImages(s).map(fingerprintImage).filter(Boolean)),
+        }));
+
+    const candidates: SupplierMergeProposal[] = [];
+
+    for (let i = 0; i < profiles.length; i++) {
+        for (let j = i + 1; j < profiles.length; j++) {
+            const a = profiles[i];
+            const b = profiles[j];
+            if (a.platform === b.platform) continue;
+            if (a.nameTokens.length === 0 || b.nameTokens.length === 0) continue;
+
+            const reasons: string[] = [];
+            let confidence = 0;
+
+            const nameSimilarity = jaccard(a.nameTokens, b.nameTokens);
+            if (nameSimilarity === 1) {
+                confidence += 0.7;
+                reasons.push('Company name matches');
+            } else if (nameSimilarity >= 0.6) {
+                confidence += 0.5 * nameSimilarity;
+                reasons.push('Similar company name');
+            } else {
+                // Name is required; location and images alone are too weak
+                continue;
+            }
+
+            if (a.locationTokens.some(t => b.locationTokens.includes(t))) {
+                confidence += 0.2;
+                reasons.push('Same location');
+            }
+
+            const sharedImages = Array.from(a.imageFingerprints).filter(f => b.imageFingerprints.has(f)).length;
+            if (sharedImages > 0) {
+                confidence += 0.3;
+                reasons.push(`${sharedImages} shared product image${sharedImages > 1 ? 's' : ''}`);
+            }
+
+            if (confidence >= MERGE_THRESHOLD) {
+                const supplierKeys: [string, string] = [a.key, b.key];
+                candidates.push({
+                    id: [...supplierKeys].sort().join('|'),
+                    supplierKeys,
+                    confidence: Math.min(1, Number(confidence.toFixed(2))),
+                    reasons,
+                });
+            }
+        }
+    }
+
+    // Greedy: strongest proposals claim their suppliers first
+    const claimed = new Set<string>();
+    return candidates
+        .sort((x, y) => y.confidence - x.confidence)
+        .filter(p => {
+            if (p.supplierKeys.some(k => claimed.has(k))) return false;
+            p.supplierKeys.forEach(k => claimed.add(k));
+            return true;
+        });
+}
+
+/**
+ * Replace the suppliers of every accepted proposal with one merged supplier,
+ * placed where the first of them was. Rejected and pending proposals leave the
+ * suppliers untouched.
+ */
+export function applyMergeDecisions(
+    suppliers: UnifiedSupplier[],
+    proposals: SupplierMergeProposal[],
+    decisions: Record<string, MergeDecision>
+): UnifiedSupplier[] {
+    const accepted = proposals.filter(p => decisions[p.id] === 'accepted');
+    if (accepted.length === 0) return suppliers;
+
+    const byKey = new Map(suppliers.map(s => [getSupplierEntityKey(s), s]));
+    const proposalByKey = new Map<string, SupplierMergeProposal>();
+    accepted.forEach(p => p.supplierKeys.forEach(k => proposalByKey.set(k, p)));
+
+    const emitted = new Set<string>();
+    const output: UnifiedSupplier[] = [];
+
+    suppliers.forEach(supplier => {
+        const proposal = proposalByKey.get(getSupplierEntityKey(supplier));
+        if (!proposal) {
+            output.push(supplier);
+            return;
+        }
+        if (emitted.has(proposal.id)) return;
+
+        const members = proposal.supplierKeys
+            .map(k => byKey.get(k))
+            .filter((s): s is UnifiedSupplier => Boolean(s));
+
+        emitted.add(proposal.id);
+        output.push(members.length > 1 ? mergeSupplierGroup(members, proposal.id) : supplier);
+    });
+
+    return output;
+}
+
+/**
+ * Build the merged view of one company listed on several platforms.
+ * The first supplier is primary; products, images, badges and matched inputs are combined.
+ */
+export function mergeSupplierGroup(members: UnifiedSupplier[], proposalId: string): UnifiedSupplier {
+    const [primary] = members;
+
+    return {
+        ...primary,
+        id: `merged-${proposalId}`,
+        products: members.flatMap(m => m.products),
+        images: unique(members.flatMap(m => m.images)),
+        supplier: {
+            ...primary.supplier,
+            location: primary.supplier.location ?? members.find(m => m.supplier.location)?.supplier.location,
+            verification: unique(members.flatMap(m => m.supplier.verification)),
+        },
+        matchedInputIds: unique(members.flatMap(m => m.matchedInputIds ?? [])),
+        storefronts: members.map(toStorefront),
+        mergeProposalId: proposalId,
+    };
+}
+
+function toStorefront(supplier: UnifiedSupplier): SupplierStorefront {
+    return {
+        platform: supplier.platform,
+        supplierId: supplier.supplier.id,
+        name: supplier.supplier.name || supplier.name,
+        url: supplier.supplier.url || supplier.url,
+        location: supplier.supplier.location,
+    };
+}
+
+function collectImages(supplier: UnifiedSupplier): string[] {
+    return [...supplier.images, ...supplier.products.flatMap(p => [p.image, ...p.images])];
+}
+
+/**
+ * Reduce an image URL to its file stem, dropping CDN size / quality suffixes
+ * such as `_300x300.jpg` or `.jpg_220x220q80.jpg`.
+ */
+function fingerprintImage(url: string): string {
+    if (!url) return '';
+    const file = url.split('?')[0].split('/').pop() ?? '';
+    return file
+        .toLowerCase()
+        .replace(/(\.(jpe?g|png|webp|gif))?_\d+x\d+\w*\.(jpe?g|png|webp|gif)$/, '')
+        .replace(/\.(jpe?g|png|webp|gif)$/, '');
+}
+
+function tokenize(value: string): string[] {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9\u4e00-\u9fff]+/g, ' ')
+        .split(' ')
+        .filter(Boolean);
+}
+
+function jaccard(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const intersection = Array.from(setA).filter(t => setB.has(t)).length;
+    const union = new Set([...a, ...b]).size;
+    return union === 0 ? 0 : intersection / union;
+}
+
+function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
@@ -0,0 +1,79 @@
+import { UnifiedProduct, UnifiedSupplier } from '@/lib/platforms/types';
+
+/**
+ * Negative keywords for search inputs.
+ * A product is dropped when any exclusion term matches its title or one of its
+ * attribute values as whole words, case-insensitively. The last word may carry
+ * a plural ending ("part" matches "Spare Parts" but not "partner",
+ * "accessory" matches "Accessories"). Terms come from the input itself and
+ * from the search-wide list.
+ */
+
+/**
+ * Split a typed query into its search text and `-term` exclusions.
+ * "cnc lathe -spare -"tool holder"" → value "cnc lathe", excludes ["spare", "tool holder"].
+ */
+export function parseQueryExclusions(text: string): { value: string; excludeTerms: string[] } {
+    const excludeTerms: string[] = [];
+    const value = text
+        .replace(/(^|\s)-(?:"([^"]+)"|(\S+))/g, (_, lead: string, quoted?: string, word?: string) => {
+            excludeTerms.push((quoted ?? word ?? '').trim());
+            return lead;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return { value, excludeTerms: normalizeExcludeTerms(excludeTerms) };
+}
+
+/**
+ * Trim, lowercase and de-duplicate terms, dropping empty ones.
+ */
+export function normalizeExcludeTerms(terms: string[]): string[] {
+    return Array.from(new Set(terms.map(t => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function isProductExcluded(product: UnifiedProduct, terms: string[]): boolean {
+    if (terms.length === 0) return false;
+
+    const haystack = [product.title, ...Object.values(product.attributes ?? {})].join(' \n ');
+    return terms.some(term => toTermPattern(term).test(haystack));
+}
+
+export function excludeProducts(products: UnifiedProduct[], terms: string[]): UnifiedProduct[] {
+    if (terms.length === 0) return products;
+    return products.filter(p => !isProductExcluded(p, terms));
+}
+
+/**
+ * Remove excluded products from each supplier. A supplier whose every product
+ * was excluded is dropped; suppliers that listed no products are kept.
+ */
+export function excludeFromSuppliers(suppliers: UnifiedSupplier[], terms: string[]): UnifiedSupplier[] {
+    if (terms.length === 0) return suppliers;
+
+    return suppliers.flatMap(supplier => {
+        if (supplier.products.length === 0) return [supplier];
+
+        const products = excludeProducts(supplier.products, terms);
+        if (products.length === 0) return [];
+        return products.length === supplier.products.length ? [supplier] : [{ ...supplier, products }];
+    });
+}
+
+function toTermPattern(term: string): RegExp {
+    const escaped = escapeTerm(term);
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Escape the term for a regex and let its last word take simple plural forms:
+ * "-y"/"-ies" match each other, other words take an optional "s" or "es".
+ */
+function escapeTerm(term: string): string {
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+
+    const yStem = term.match(/^(.*[^aeiou])(?:y|ies)$/i);
+    if (yStem) return `${escape(yStem[1])}(?:y|ies)`;
+    return `${escape(term)}(?:e?s)?`;
+}
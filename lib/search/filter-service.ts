@@ -1,4 +1,79 @@
-import { UnifiedSupplier, FilterValue, FilterDefinition } from '@/lib/platforms/types';
+import { UnifiedSupplier, FilterValue, FilterDefinition, MoqUnit, PlatformType } from '@/lib/platforms/types';
+import { AlibabaOffer } from '@/lib/platforms/alibaba/types';
+import { MICCompany } from '@/lib/platforms/madeinchina/types';
+import { GSSellerFields } from '@/lib/platforms/globalsources/types';
+import { getGoldYears, getNormalizedPrice, getSupplierMoqQuantity, parseLeadingNumber } from '@/lib/search/sort-service';
+
+/**
+ * Supplier filters.
+ * Cross-platform filters (no `platform` on the definition) work on facts each
+ * platform maps into. A platform that does not expose a fact (null below) is
+ * not filterable on it: its suppliers pass and the filter UI says so. On a
+ * platform that does expose it, a supplier without the value fails.
+ * MOQ and price ranges work on every platform but only judge comparable values:
+ * MOQs in pieces and prices convertible to the filter's currency. Suppliers
+ * without one pass, and the filter's `note` says so.
+ * Platform-specific filters are extras: they only constrain suppliers of their
+ * own platform.
+ */
+
+type SupplierFact<T> = ((supplier: UnifiedSupplier) => T) | null;
+
+interface SupplierFacts {
+    verified: SupplierFact<boolean>;
+    factory: SupplierFact<boolean>;
+    yearsInBusiness: SupplierFact<number | null>;
+}
+
+// Filter ids of the cross-platform filters backed by a platform fact
+const FACT_FILTERS: Record<string, keyof SupplierFacts> = {
+    'verified': 'verified',
+    'factory': 'factory',
+    'years-in-business': 'yearsInBusiness',
+};
+
+const PLATFORM_FACTS: Record<PlatformType, SupplierFacts> = {
+    alibaba: {
+        verified: s => hasBadge(s, /^Verified Supplier/) || !!s.platformSpecific.verifiedSupplier,
+        factory: s => hasBadge(s, /^Factory$/) || !!s.platformSpecific.isFactory,
+        yearsInBusiness: getGoldYears,
+    },
+    madeinchina: {
+        verified: s => hasBadge(s, /^Audited Supplier$/) || !!s.platformSpecific.isAuditedSupplier,
+        factory: s => /manufacturer|factory/i.test(String(s.platformSpecific.businessType ?? '')),
+        yearsInBusiness: null,
+    },
+    '1688': {
+        verified: s => hasBadge(s, /^(TrustPass|Factory Inspected)/),
+        factory: s => hasBadge(s, /^(Super )?Factory$/),
+        yearsInBusiness: s => parseLeadingNumber(s.platformSpecific.tpYear),
+    },
+    globalsources: {
+        verified: s => hasBadge(s, /^Verified (Supplier|Manufacturer)$/),
+        factory: s => hasBadge(s, /^Verified Manufacturer$/) || /manufacturer/i.test(String(s.platformSpecific.businessType ?? '')),
+        yearsInBusiness: s => parseLeadingNumber(s.platformSpecific.supplierYears),
+    },
+    // DHgate has no supplier verification program or company age on listings
+    dhgate: {
+        verified: null,
+        factory: null,
+        yearsInBusiness: null,
+    },
+    indiamart: {
+        verified: s => hasBadge(s, /^(GST Verified|TrustSEAL Verified)$/),
+        factory: null,
+        yearsInBusiness: s => parseLeadingNumber(s.platformSpecific.memberYears),
+    },
+};
+
+// Currency the cross-platform price filter compares in
+export const PRICE_FILTER_CURRENCY = 'USD';
+
+// Unit the MOQ filters compare in; a MOQ of 2 sets or 5 tons is not a count of pieces
+export const MOQ_FILTER_UNIT: MoqUnit = 'pieces';
+
+const MOQ_FILTER_NOTE = 'Suppliers without a MOQ in pieces are not filtered.';
+const PRICE_FILTER_NOTE = 'Suppliers without a price in a known currency are not filtered.';
 
 export function applyFilters(products: UnifiedSupplier[], filters: FilterValue[]): UnifiedSupplier[] {
     if (!filters.length) return products;
@@ -14,34 +89,43 @@ export function applyFilters(products: UnifiedSupplier[], filters: FilterValue[]
 
 function checkFilterMatch(product: UnifiedSupplier, filter: FilterValue): boolean {
     const { filterId, value } = filter;
+    const facts = PLATFORM_FACTS[product.platform];
+
+    // Cross-platform Filters
+    switch (filterId) {
+        case 'verified':
+            return !facts.verified || facts.verified(product) === (value === true);
+        case 'factory':
+            return !facts.factory || facts.factory(product) === (value === true);
+        case 'years-in-business':
+            return !facts.yearsInBusiness || isWithinRange(facts.yearsInBusiness(product), value);
+        case 'moq':
+            return matchesMoqRange(product, value);
+        case 'price': {
+            if (typeof value !== 'object') return false;
+            const price = getNormalizedPrice(product, value.currency ?? PRICE_FILTER_CURRENCY);
+            return price === null || isWithinRange(price, value);
+        }
+    }
 
     // Alibaba Filters
     if (product.platform === 'alibaba') {
-        const data = product.platformSpecific as any;
+        const data = product.platformSpecific as Partial<AlibabaOffer>;
 
         switch (filterId) {
             case 'alibaba-verified':
-                return !!data.verifiedSupplier === (value === true);
+                return (!!data.verifiedSupplier || !!data.verifiedSupplierPro) === (value === true);
             case 'alibaba-gold-years':
-                if (typeof value === 'object' && 'min' in value) {
-                    const years = parseInt(data.goldYearsNumber || '0', 10);
-                    return years >= value.min && years <= value.max;
-                }
-                return false;
+                // Suppliers outside the Gold Supplier programme count as 0 years
+                return isWithinRange(getGoldYears(product) ?? 0, value);
             case 'alibaba-moq':
-                if (typeof value === 'object' && 'min' in value) {
-                    // Parse MOQ string like "10 Pieces" -> 10
-                    const moqStr = product.moq || '0';
-                    const moq = parseInt(moqStr.replace(/[^0-9]/g, ''), 10) || 0;
-                    return moq >= value.min && moq <= value.max;
-                }
-                return false;
+                return matchesMoqRange(product, value);
         }
     }
 
     // Made-in-China Filters
     if (product.platform === 'madeinchina') {
-        const data = product.platformSpecific as any;
+        const data = product.platformSpecific as Partial<MICCompany>;
 
         switch (filterId) {
             case 'mic-audited':
@@ -54,11 +138,133 @@ function checkFilterMatch(product: UnifiedSupplier, filter: FilterValue): boolea
         }
     }
 
+    // Global Sources Filters
+    if (product.platform === 'globalsources') {
+        const data = product.platformSpecific as Partial<GSSellerFields>;
+
+        switch (filterId) {
+            case 'gs-verified-manufacturer':
+                return !!data.verifiedManufacturer === (value === true);
+            case 'gs-exhibitor':
+                return !!data.exhibitor === (value === true);
+            case 'gs-years':
+                if (typeof value === 'object' && 'min' in value) {
+                    const years = data.supplierYears ?? 0;
+                    return years >= value.min && years <= value.max;
+                }
+                return false;
+        }
+    }
+
+    // DHgate Filters: shipping and tiers live on the products
+    if (product.platform === 'dhgate') {
+        switch (filterId) {
+            case 'dhgate-free-shipping':
+                return product.products.some(p => !!p.shipping?.free) === (value === true);
+            case 'dhgate-delivery-days':
+                if (typeof value === 'number') {
+                    return product.products.some(p => p.shipping?.maxDays != null && p.shipping.maxDays <= value);
+                }
+                return false;
+            case 'dhgate-top-merchant':
+                return product.supplier.verification.includes('Top Merchant') === (value === true);
+            case 'dhgate-single-piece':
+                return product.products.some(p => (p.moqQuantity?.quantity ?? Infinity) <= 1) === (value === true);
+        }
+    }
+
     return true;
 }
 
+/**
+ * Price range filter bounded by the cheapest and most expensive supplier in
+ * `suppliers`, in `currency`. Null when none of them has a convertible price.
+ */
+export function getPriceFilter(suppliers: UnifiedSupplier[], currency: string): FilterDefinition | null {
+    const prices = suppliers
+        .map(supplier => getNormalizedPrice(supplier, currency))
+        .filter((price): price is number => price !== null);
+    if (prices.length === 0) return null;
+
+    const min = Math.floor(Math.min(...prices));
+    const max = Math.max(Math.ceil(Math.max(...prices)), min + 1);
+
+    return {
+        id: 'price',
+        label: 'Price Range',
+        type: 'range',
+        min,
+        max,
+        // Cents for cheap result sets, whole units otherwise
+        step: max - min <= 10 ? 0.01 : 1,
+        unit: currency,
+        note: PRICE_FILTER_NOTE
+    };
+}
+
+/**
+ * Platforms whose suppliers a cross-platform filter cannot judge and lets through.
+ */
+export function getUnsupportedPlatforms(filterId: string): PlatformType[] {
+    const fact = FACT_FILTERS[filterId];
+    if (!fact) return [];
+    return (Object.keys(PLATFORM_FACTS) as PlatformType[]).filter(platform => !PLATFORM_FACTS[platform][fact]);
+}
+
+function matchesMoqRange(supplier: UnifiedSupplier, value: FilterValue['value']): boolean {
+    const moq = getSupplierMoqQuantity(supplier);
+    return moq?.unit !== MOQ_FILTER_UNIT || isWithinRange(moq.quantity, value);
+}
+
+function isWithinRange(amount: number | null, value: FilterValue['value']): boolean {
+    if (amount === null || typeof value !== 'object') return false;
+    return amount >= value.min && amount <= value.max;
+}
+
+function hasBadge(supplier: UnifiedSupplier, pattern: RegExp): boolean {
+    return supplier.supplier.verification.some(badge => pattern.test(badge));
+}
+
 export function getSupportedFilters(): FilterDefinition[] {
     return [
+        // Cross-platform Filters
+        {
+            id: 'verified',
+            label: 'Verified / Audited',
+            type: 'boolean'
+        },
+        {
+            id: 'factory',
+            label: 'Factory / Manufacturer',
+            type: 'boolean'
+        },
+        {
+            id: 'years-in-business',
+            label: 'Years in Business',
+            type: 'range',
+            min: 0,
+            max: 30,
+            unit: 'years'
+        },
+        {
+            id: 'moq',
+            label: 'MOQ Range',
+            type: 'range',
+            min: 1,
+            max: 10000,
+            unit: MOQ_FILTER_UNIT,
+            note: MOQ_FILTER_NOTE
+        },
+        {
+            id: 'price',
+            label: 'Price Range',
+            type: 'range',
+            min: 0,
+            max: 1000,
+            unit: PRICE_FILTER_CURRENCY,
+            note: PRICE_FILTER_NOTE
+        },
+
         // Alibaba Filters
         {
             id: 'alibaba-verified',
@@ -82,7 +288,8 @@ export function getSupportedFilters(): FilterDefinition[] {
             platform: 'alibaba',
             min: 1,
             max: 10000,
-            unit: 'units'
+            unit: MOQ_FILTER_UNIT,
+            note: MOQ_FILTER_NOTE
         },
 
         // Made-in-China Filters
@@ -105,6 +312,61 @@ export function getSupportedFilters(): FilterDefinition[] {
                 { label: '4+ Stars', value: 4 },
                 { label: '5 Stars', value: 5 },
             ]
+        },
+
+        // Global Sources Filters
+        {
+            id: 'gs-verified-manufacturer',
+            label: 'Verified Manufacturer',
+            type: 'boolean',
+            platform: 'globalsources'
+        },
+        {
+            id: 'gs-exhibitor',
+            label: 'Trade Show Exhibitor',
+            type: 'boolean',
+            platform: 'globalsources'
+        },
+        {
+            id: 'gs-years',
+            label: 'Years on Global Sources',
+            type: 'range',
+            platform: 'globalsources',
+            min: 0,
+            max: 30,
+            unit: 'years'
+        },
+
+        // DHgate Filters
+        {
+            id: 'dhgate-free-shipping',
+            label: 'Free Shipping',
+            type: 'boolean',
+            platform: 'dhgate'
+        },
+        {
+            id: 'dhgate-delivery-days',
+            label: 'Delivery Time (Max)',
+            type: 'select',
+            platform: 'dhgate',
+            options: [
+                { label: 'Any', value: 0 },
+                { label: 'Within 10 days', value: 10 },
+                { label: 'Within 20 days', value: 20 },
+                { label: 'Within 30 days', value: 30 },
+            ]
+        },
+        {
+            id: 'dhgate-top-merchant',
+            label: 'Top Merchant',
+            type: 'boolean',
+            platform: 'dhgate'
+        },
+        {
+            id: 'dhgate-single-piece',
+            label: 'Orderable by the Piece',
+            type: 'boolean',
+            platform: 'dhgate'
         }
     ];
 }
@@ -0,0 +1,46 @@
+import { UnifiedSupplier } from '@/lib/platforms/types';
+
+/**
+ * Stable key for a supplier within one platform.
+ * Shared by server-side grouping and client-side "Load more" merging.
+ */
+export function getSupplierKey(platform: string, supplierId: string | undefined, supplierName: string): string {
+    return `${platform}-${supplierId || supplierName}`;
+}
+
+/**
+ * Merge a newly fetched page of suppliers into the ones already shown.
+ * Existing suppliers keep their position and gain any new products, images
+ * and matched inputs; unseen suppliers are appended.
+ */
+export function mergeSuppliers(existing: UnifiedSupplier[], incoming: UnifiedSupplier[]): UnifiedSupplier[] {
+    const merged = existing.map(s => ({ ...s }));
+    const index = new Map<string, number>();
+
+    merged.forEach((s, i) => {
+        index.set(getSupplierKey(s.platform, s.supplier.id, s.name), i);
+    });
+
+    incoming.forEach(supplier => {
+        const key = getSupplierKey(supplier.platform, supplier.supplier.id, supplier.name);
+        const position = index.get(key);
+
+        if (position === undefined) {
+            index.set(key, merged.length);
+            merged.push(supplier);
+            return;
+        }
+
+        const current = merged[position];
+        const productIds = new Set(current.products.map(p => p.id));
+
+        merged[position] = {
+            ...current,
+            products: [...current.products, ...supplier.products.filter(p => !productIds.has(p.id))],
+            images: Array.from(new Set([...current.images, ...supplier.images])),
+            matchedInputIds: Array.from(new Set([...(current.matchedInputIds ?? []), ...(supplier.matchedInputIds ?? [])])),
+        };
+    });
+
+    return merged;
+}
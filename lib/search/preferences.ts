@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DisplayCurrency } from '@/lib/search/currency-service';
+
+/**
+ * User display preferences, persisted to localStorage so they survive reloads
+ * (unlike the shared search store in `lib/agent/state.ts`).
+ * Hydration is skipped on creation so server and first client render agree;
+ * call `useSearchPreferences.persist.rehydrate()` after mount.
+ */
+interface SearchPreferences {
+    displayCurrency: DisplayCurrency;
+    setDisplayCurrency: (currency: DisplayCurrency) => void;
+}
+
+export const useSearchPreferences = create<SearchPreferences>()(
+    persist(
+        (set) => ({
+            displayCurrency: 'USD',
+            setDisplayCurrency: (currency) => set({ displayCurrency: currency }),
+        }),
+        { name: 'search-preferences', skipHydration: true }
+    )
+);
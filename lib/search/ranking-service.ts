@@ -0,0 +1,160 @@
+import { UnifiedSupplier } from '@/lib/platforms/types';
+import { getNormalizedPrice, getReviewScore, getSupplierMoq, parseLeadingNumber } from '@/lib/search/sort-service';
+
+/**
+ * Relevance ranking for unified supplier results.
+ * Each factor is normalized to 0..1, multiplied by its user-adjustable weight,
+ * and the weighted average becomes a 0..100 score. Missing values score 0.
+ */
+
+export interface RankingWeights {
+    matchedInputs: number;
+    verification: number;
+    reviewScore: number;
+    reorderRate: number;
+    onTimeDelivery: number;
+    capabilityStars: number;
+    price: number;
+    moq: number;
+}
+
+export type RankingFactor = keyof RankingWeights;
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+    matchedInputs: 5,
+    verification: 3,
+    reviewScore: 3,
+    reorderRate: 2,
+    onTimeDelivery: 2,
+    capabilityStars: 2,
+    price: 2,
+    moq: 1,
+};
+
+export const RANKING_FACTORS: { id: RankingFactor; label: string; description: string }[] = [
+    { id: 'matchedInputs', label: 'Inputs matched', description: 'Share of search inputs this supplier matched' },
+    { id: 'verification', label: 'Verification', description: 'Number of verification badges (up to 3)' },
+    { id: 'reviewScore', label: 'Review score', description: 'Alibaba review score out of 5' },
+    { id: 'reorderRate', label: 'Reorder rate', description: 'Alibaba buyer reorder rate' },
+    { id: 'onTimeDelivery', label: 'On-time delivery', description: 'Alibaba on-time delivery rate' },
+    { id: 'capabilityStars', label: 'Capability stars', description: 'Made-in-China capability stars out of 5' },
+    { id: 'price', label: 'Low price', description: 'Lower price relative to other results' },
+    { id: 'moq', label: 'Low MOQ', description: 'Lower minimum order relative to other results' },
+];
+
+export interface RankingFactorScore {
+    factor: RankingFactor;
+    label: string;
+    value: number; // normalized 0..1, or null-equivalent 0 when missing
+    available: boolean;
+    weight: number;
+    contribution: number; // points added to the 0..100 total
+}
+
+export interface SupplierScore {
+    total: number; // 0..100
+    breakdown: RankingFactorScore[];
+}
+
+export interface RankingContext {
+    totalInputs: number;
+    priceRange: { min: number; max: number } | null;
+    moqRange: { min: number; max: number } | null;
+}
+
+/**
+ * Score every supplier and return them ordered by descending score.
+ * Ties keep their original order.
+ */
+export function rankSuppliers(
+    suppliers: UnifiedSupplier[],
+    weights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
+    totalInputs: number = 1
+): { supplier: UnifiedSupplier; score: SupplierScore }[] {
+    const context = buildContext(suppliers, totalInputs);
+
+    return suppliers
+        .map((supplier, index) => ({ supplier, score: scoreSupplier(supplier, weights, context), index }))
+        .sort((a, b) => b.score.total - a.score.total || a.index - b.index)
+        .map(({ supplier, score }) => ({ supplier, score }));
+}
+
+export function scoreSupplier(
+    supplier: UnifiedSupplier,
+    weights: RankingWeights,
+    context: RankingContext
+): SupplierScore {
+    const raw = extractFactorValues(supplier, context);
+    const totalWeight = RANKING_FACTORS.reduce((sum, f) => sum + Math.max(0, weights[f.id]), 0);
+
+    const breakdown = RANKING_FACTORS.map(({ id, label }) => {
+        const value = raw[id];
+        const weight = Math.max(0, weights[id]);
+        const normalized = value === null ? 0 : clamp01(value);
+        return {
+            factor: id,
+            label,
+            value: normalized,
+            available: value !== null,
+            weight,
+            contribution: totalWeight > 0 ? (normalized * weight / totalWeight) * 100 : 0,
+        };
+    });
+
+    const total = breakdown.reduce((sum, f) => sum + f.contribution, 0);
+    return { total: Math.round(total * 10) / 10, breakdown };
+}
+
+function buildContext(suppliers: UnifiedSupplier[], totalInputs: number): RankingContext {
+    return {
+        totalInputs: Math.max(1, totalInputs),
+        priceRange: range(suppliers.map(s => getNormalizedPrice(s))),
+        moqRange: range(suppliers.map(getSupplierMoq)),
+    };
+}
+
+function extractFactorValues(supplier: UnifiedSupplier, context: RankingContext): Record<RankingFactor, number | null> {
+    const data = supplier.platformSpecific as Record<string, unknown>;
+    const stars = typeof data.capabilityStars === 'number' ? data.capabilityStars : parseStarsBadge(supplier.supplier.verification);
+    const reviewScore = getReviewScore(supplier);
+    const reorderRate = parseLeadingNumber(data.reorderRate);
+    const onTimeDelivery = parseLeadingNumber(data.onTimeDelivery);
+
+    return {
+        matchedInputs: (supplier.matchedInputIds?.length ?? 0) / context.totalInputs,
+        verification: Math.min(supplier.supplier.verification.length, 3) / 3,
+        reviewScore: reviewScore === null ? null : reviewScore / 5,
+        reorderRate: reorderRate === null ? null : reorderRate / 100,
+        onTimeDelivery: onTimeDelivery === null ? null : onTimeDelivery / 100,
+        capabilityStars: stars === null ? null : stars / 5,
+        price: inverseWithinRange(getNormalizedPrice(supplier), context.priceRange),
+        moq: inverseWithinRange(getSupplierMoq(supplier), context.moqRange),
+    };
+}
+
+/**
+ * Lower is better: the cheapest result scores 1, the most expensive 0.
+ */
+function inverseWithinRange(value: number | null, bounds: { min: number; max: number } | null): number | null {
+    if (value === null || !bounds) return null;
+    if (bounds.max === bounds.min) return 1;
+    return 1 - (value - bounds.min) / (bounds.max - bounds.min);
+}
+
+function range(values: (number | null)[]): { min: number; max: number } | null {
+    const present = values.filter((v): v is number => v !== null);
+    if (present.length === 0) return null;
+    return { min: Math.min(...present), max: Math.max(...present) };
+}
+
+function parseStarsBadge(badges: string[]): number | null {
+    for (const badge of badges) {
+        const match = badge.match(/^(\d(?:\.\d)?) Stars?$/i);
+        if (match) return Number(match[1]);
+    }
+    return null;
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
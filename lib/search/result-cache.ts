@@ -0,0 +1,134 @@
+/**
+ * Search Result Cache - Supabase-backed cache for unified search responses,
+ * keyed by platform, search type, normalized query or image hash, and page.
+ * Table `search_result_cache`: key text primary key, platform text,
+ * payload jsonb, updated_at timestamptz.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { PlatformType, SearchCacheState, SearchType } from '@/lib/platforms/types';
+
+const DEFAULT_TTL_MINUTES = 60;
+
+export const SEARCH_CACHE_TTL_MS =
+    (Number(process.env.SEARCH_CACHE_TTL_MINUTES) || DEFAULT_TTL_MINUTES) * 60 * 1000;
+
+export interface SearchCacheOptions {
+    ttlMs?: number;
+    /** Skip the lookup and overwrite the stored entry with a live result */
+    forceRefresh?: boolean;
+}
+
+export interface SearchCacheKeyParts {
+    platform: PlatformType;
+    searchType: SearchType;
+    page: number;
+    query?: string;
+    imageHash?: string;
+    regionIds?: string[]; // Alibaba searches only the picked regions
+}
+
+export interface CachedSearch<T> {
+    value: T;
+    cache: SearchCacheState;
+    cachedAt?: number;
+}
+
+let supabase: SupabaseClient | null | undefined;
+
+// Search works without Supabase configured; the cache is simply off
+function getClient(): SupabaseClient | null {
+    if (supabase === undefined) {
+        const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const key = process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY;
+        supabase = url && key ? createClient(url, key) : null;
+    }
+    return supabase;
+}
+
+export function buildSearchCacheKey(parts: SearchCacheKeyParts): string {
+    const subject = parts.imageHash
+        ? `image:${parts.imageHash}:${[...(parts.regionIds ?? [])].sort().join(',')}`
+        : `text:${normalizeQuery(parts.query ?? '')}`;
+    return [parts.platform, parts.searchType, subject, `p${parts.page}`].join('|');
+}
+
+export function normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Return a fresh cached value for the key, or run `fetcher` and store its
+ * result. Empty results are not stored: they are usually a transient block.
+ */
+export async function withSearchCache<T>(
+    key: string,
+    platform: PlatformType,
+    fetcher: () => Promise<T>,
+    isEmpty: (value: T) => boolean,
+    options: SearchCacheOptions = {}
+): Promise<CachedSearch<T>> {
+    const ttlMs = options.ttlMs ?? SEARCH_CACHE_TTL_MS;
+
+    if (!options.forceRefresh) {
+        const cached = await getCachedSearch<T>(key, ttlMs);
+        if (cached) {
+            console.log(`[Search Cache HIT] ${key}`);
+            return { value: cached.value, cache: 'hit', cachedAt: cached.cachedAt };
+        }
+    }
+
+    const value = await fetcher();
+    if (!isEmpty(value)) {
+        await setCachedSearch(key, platform, value);
+    }
+
+    return { value, cache: options.forceRefresh ? 'refresh' : 'miss' };
+}
+
+async function getCachedSearch<T>(key: string, ttlMs: number): Promise<{ value: T; cachedAt: number } | null> {
+    const client = getClient();
+    if (!client) return null;
+
+    try {
+        const { data, error } = await client
+            .from('search_result_cache')
+            .select('payload, updated_at')
+            .eq('key', key)
+            .single();
+
+        if (error || !data) {
+            return null;
+        }
+
+        const cachedAt = new Date(data.updated_at).getTime();
+        if (Date.now() - cachedAt > ttlMs) {
+            return null;
+        }
+
+        return { value: data.payload as T, cachedAt };
+    } catch (err) {
+        console.error('[Search Cache] Error reading cache:', err);
+        return null;
+    }
+}
+
+async function setCachedSearch(key: string, platform: PlatformType, payload: unknown): Promise<void> {
+    const client = getClient();
+    if (!client) return;
+
+    try {
+        const { error } = await client
+            .from('search_result_cache')
+            .upsert(
+                { key, platform, payload, updated_at: new Date().toISOString() },
+                { onConflict: 'key' }
+            );
+
+        if (error) {
+            console.error('[Search Cache] Error writing cache:', error);
+        }
+    } catch (err) {
+        console.error('[Search Cache] Error writing cache:', err);
+    }
+}
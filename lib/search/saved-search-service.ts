@@ -0,0 +1,286 @@
+/**
+ * Saved Searches - Supabase-backed searches re-run on a schedule.
+ *
+ * Tables:
+ * - `saved_searches`: id uuid primary key, owner_id uuid (auth.users), name text,
+ *   inputs jsonb, platforms jsonb, search_type text, filters jsonb,
+ *   exclude_terms jsonb, interval_days int, last_run_at timestamptz, created_at timestamptz
+ * - `saved_search_runs`: id uuid primary key, saved_search_id uuid, ran_at timestamptz,
+ *   result_count int, failed_tasks int, snapshot jsonb, diff jsonb
+ *
+ * Route handlers pass the signed-in user's client, so row-level security
+ * limits owners to their own rows; the cron runner uses the service role.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+    FilterValue,
+    PlatformType,
+    SavedSearch,
+    SavedSearchDraft,
+    SavedSearchRun,
+    SearchInput,
+    SearchType,
+} from '@/lib/platforms/types';
+import { resolvePlatforms } from '@/lib/platforms/registry';
+import { searchUnified } from '@/lib/search/unified-service';
+import { applyFilters } from '@/lib/search/filter-service';
+import { diffSearchSnapshots, toSearchSnapshot } from '@/lib/search/search-diff';
+
+export const DEFAULT_INTERVAL_DAYS = 7;
+
+// Runs returned with a saved search; older runs stay in the table
+const RUN_HISTORY_LIMIT = 20;
+
+interface SavedSearchRow {
+    id: string;
+    owner_id: string;
+    name: string;
+    inputs: SearchInput[];
+    platforms: PlatformType[];
+    search_type: SearchType;
+    filters: FilterValue[];
+    exclude_terms: string[];
+    interval_days: number;
+    last_run_at: string | null;
+    created_at: string;
+}
+
+interface SavedSearchRunRow {
+    id: string;
+    saved_search_id: string;
+    ran_at: string;
+    result_count: number;
+    failed_tasks: number;
+    snapshot: SavedSearchRun['snapshot'];
+    diff: SavedSearchRun['diff'];
+}
+
+/**
+ * Service-role client for the scheduled runner, which acts for every owner.
+ */
+export function createServiceClient(): SupabaseClient {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) {
+        throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required to run saved searches');
+    }
+    return createClient(url, key, { auth: { persistSession: false } });
+}
+
+/**
+ * Validate a saved-search body from the client. Returns an error message for
+ * anything unusable; image inputs are dropped because files are not stored.
+ */
+export function parseSavedSearchDraft(body: unknown): SavedSearchDraft | string {
+    if (typeof body !== 'object' || body === null) return 'Invalid request body';
+    const data = body as Record<string, unknown>;
+
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) return 'Name is required';
+
+    const inputs = (Array.isArray(data.inputs) ? data.inputs : [])
+        .filter((i): i is SearchInput => i?.type === 'text' && typeof i.value === 'string' && i.value.trim() !== '')
+        .map(i => ({
+            id: typeof i.id === 'string' ? i.id : crypto.randomUUID(),
+            type: 'text' as const,
+            value: i.value.trim(),
+            ...(Array.isArray(i.excludeTerms) && { excludeTerms: i.excludeTerms.filter(t => typeof t === 'string') }),
+        }));
+    if (inputs.length === 0) return 'At least one text input is required';
+
+    const intervalDays = Number(data.intervalDays);
+
+    return {
+        name,
+        inputs,
+        platforms: resolvePlatforms(data.platforms),
+        searchType: data.searchType === 'suppliers' ? 'suppliers' : 'products',
+        filters: Array.isArray(data.filters) ? data.filters.filter(f => typeof f?.filterId === 'string') : [],
+        excludeTerms: Array.isArray(data.excludeTerms) ? data.excludeTerms.filter(t => typeof t === 'string') : [],
+        intervalDays: Number.isInteger(intervalDays) && intervalDays > 0 ? intervalDays : DEFAULT_INTERVAL_DAYS,
+    };
+}
+
+export async function listSavedSearches(client: SupabaseClient, ownerId: string): Promise<SavedSearch[]> {
+    const { data, error } = await client
+        .from('saved_searches')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to load saved searches: ${error.message}`);
+    return (data as SavedSearchRow[]).map(toSavedSearch);
+}
+
+export async function getSavedSearch(client: SupabaseClient, id: string, ownerId: string): Promise<SavedSearch | null> {
+    const { data, error } = await client
+        .from('saved_searches')
+        .select('*')
+        .eq('id', id)
+        .eq('owner_id', ownerId)
+        .maybeSingle();
+
+    if (error) throw new Error(`Failed to load saved search: ${error.message}`);
+    return data ? toSavedSearch(data as SavedSearchRow) : null;
+}
+
+export async function createSavedSearch(
+    client: SupabaseClient,
+    ownerId: string,
+    draft: SavedSearchDraft
+): Promise<SavedSearch> {
+    const { data, error } = await client
+        .from('saved_searches')
+        .insert({
+            owner_id: ownerId,
+            name: draft.name,
+            inputs: draft.inputs,
+            platforms: draft.platforms,
+            search_type: draft.searchType,
+            filters: draft.filters,
+            exclude_terms: draft.excludeTerms,
+            interval_days: draft.intervalDays,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw new Error(`Failed to save search: ${error.message}`);
+    return toSavedSearch(data as SavedSearchRow);
+}
+
+export async function deleteSavedSearch(client: SupabaseClient, id: string, ownerId: string): Promise<void> {
+    const { error: runsError } = await client.from('saved_search_runs').delete().eq('saved_search_id', id);
+    if (runsError) throw new Error(`Failed to delete saved search runs: ${runsError.message}`);
+
+    const { error } = await client.from('saved_searches').delete().eq('id', id).eq('owner_id', ownerId);
+    if (error) throw new Error(`Failed to delete saved search: ${error.message}`);
+}
+
+/**
+ * Most recent runs first.
+ */
+export async function listSavedSearchRuns(client: SupabaseClient, savedSearchId: string): Promise<SavedSearchRun[]> {
+    const { data, error } = await client
+        .from('saved_search_runs')
+        .select('*')
+        .eq('saved_search_id', savedSearchId)
+        .order('ran_at', { ascending: false })
+        .limit(RUN_HISTORY_LIMIT);
+
+    if (error) throw new Error(`Failed to load saved search runs: ${error.message}`);
+    return (data as SavedSearchRunRow[]).map(toSavedSearchRun);
+}
+
+/**
+ * Re-execute a saved search through `searchUnified`, apply its filters, and
+ * record the run with its diff against the previous run.
+ */
+export async function runSavedSearch(client: SupabaseClient, search: SavedSearch): Promise<SavedSearchRun> {
+    const { results, statuses } = await searchUnified(search.inputs, search.platforms, {
+        searchType: search.searchType,
+        excludeTerms: search.excludeTerms,
+    });
+    // A run where every platform failed would read as "everything is gone"
+    if (statuses.length > 0 && statuses.every(s => s.state === 'failed')) {
+        throw new Error('All platform searches failed; run not recorded');
+    }
+
+    const suppliers = applyFilters(results, search.filters);
+    const snapshot = toSearchSnapshot(suppliers);
+
+    const [previous] = await listSavedSearchRuns(client, search.id);
+    const ranAt = new Date().toISOString();
+
+    const { data, error } = await client
+        .from('saved_search_runs')
+        .insert({
+            saved_search_id: search.id,
+            ran_at: ranAt,
+            result_count: suppliers.length,
+            failed_tasks: statuses.filter(s => s.state === 'failed').length,
+            snapshot,
+            diff: previous ? diffSearchSnapshots(previous.snapshot, snapshot) : null,
+        })
+        .select('*')
+        .single();
+
+    if (error) throw new Error(`Failed to record saved search run: ${error.message}`);
+
+    const { error: updateError } = await client
+        .from('saved_searches')
+        .update({ last_run_at: ranAt })
+        .eq('id', search.id);
+
+    if (updateError) {
+        console.error(`[Saved Search] Failed to update last run of ${search.id}:`, updateError);
+    }
+
+    return toSavedSearchRun(data as SavedSearchRunRow);
+}
+
+/**
+ * Run every saved search whose interval has elapsed, one at a time so the
+ * platforms see no more load than a single user search.
+ */
+export async function runDueSavedSearches(
+    client: SupabaseClient,
+    now: Date = new Date()
+): Promise<{ id: string; name: string; ok: boolean; error?: string }[]> {
+    const { data, error } = await client.from('saved_searches').select('*');
+    if (error) throw new Error(`Failed to load saved searches: ${error.message}`);
+
+    const due = (data as SavedSearchRow[]).map(toSavedSearch).filter(s => isDue(s, now));
+    const outcomes: { id: string; name: string; ok: boolean; error?: string }[] = [];
+
+    for (const search of due) {
+        try {
+            await runSavedSearch(client, search);
+            outcomes.push({ id: search.id, name: search.name, ok: true });
+        } catch (err) {
+            console.error(`[Saved Search] Run failed for ${search.id}:`, err);
+            outcomes.push({
+                id: search.id,
+                name: search.name,
+                ok: false,
+                error: err instanceof Error ? err.message : 'Unknown error',
+            });
+        }
+    }
+
+    return outcomes;
+}
+
+export function isDue(search: SavedSearch, now: Date): boolean {
+    if (!search.lastRunAt) return true;
+    const intervalMs = search.intervalDays * 24 * 60 * 60 * 1000;
+    return now.getTime() - new Date(search.lastRunAt).getTime() >= intervalMs;
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+        id: row.id,
+        ownerId: row.owner_id,
+        name: row.name,
+        inputs: row.inputs ?? [],
+        platforms: resolvePlatforms(row.platforms),
+        searchType: row.search_type === 'suppliers' ? 'suppliers' : 'products',
+        filters: row.filters ?? [],
+        excludeTerms: row.exclude_terms ?? [],
+        intervalDays: row.interval_days || DEFAULT_INTERVAL_DAYS,
+        lastRunAt: row.last_run_at,
+        createdAt: row.created_at,
+    };
+}
+
+function toSavedSearchRun(row: SavedSearchRunRow): SavedSearchRun {
+    return {
+        id: row.id,
+        savedSearchId: row.saved_search_id,
+        ranAt: row.ran_at,
+        resultCount: row.result_count,
+        failedTasks: row.failed_tasks,
+        snapshot: row.snapshot ?? { suppliers: [], products: [] },
+        diff: row.diff,
+    };
+}
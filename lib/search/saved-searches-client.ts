@@ -0,0 +1,49 @@
+import { SavedSearch, SavedSearchDraft, SavedSearchRun } from '@/lib/platforms/types';
+
+/**
+ * Browser client for /api/saved-searches. Errors carry the server's message,
+ * e.g. "Sign in to use saved searches".
+ */
+
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const data = await request<{ savedSearches: SavedSearch[] }>('/api/saved-searches');
+  return data.savedSearches;
+}
+
+export async function fetchSavedSearch(id: string): Promise<{ savedSearch: SavedSearch; runs: SavedSearchRun[] }> {
+  return request(`/api/saved-searches/${id}`);
+}
+
+export async function saveSearch(draft: SavedSearchDraft): Promise<SavedSearch> {
+  // Files cannot be stored; only text inputs are kept
+  const inputs = draft.inputs
+    .filter(i => i.type === 'text')
+    .map(({ id, type, value, excludeTerms }) => ({ id, type, value, excludeTerms }));
+
+  const data = await request<{ savedSearch: SavedSearch }>('/api/saved-searches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...draft, inputs })
+  });
+  return data.savedSearch;
+}
+
+export async function runSavedSearchNow(id: string): Promise<SavedSearchRun> {
+  const data = await request<{ run: SavedSearchRun }>(`/api/saved-searches/${id}/run`, { method: 'POST' });
+  return data.run;
+}
+
+export async function removeSavedSearch(id: string): Promise<void> {
+  await request(`/api/saved-searches/${id}`, { method: 'DELETE' });
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+
+  return data as T;
+}
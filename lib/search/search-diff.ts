@@ -0,0 +1,78 @@
+import {
+    SearchDiff,
+    SearchSnapshot,
+    SnapshotProduct,
+    SnapshotSupplier,
+    UnifiedSupplier,
+} from '@/lib/platforms/types';
+import { getSupplierKey } from '@/lib/search/merge-service';
+
+/**
+ * Snapshots and diffs of saved-search runs.
+ * A snapshot keeps just enough of each supplier and product to list it later;
+ * diffs compare snapshots by key, so reordering alone is not a change.
+ */
+
+export function toSearchSnapshot(suppliers: UnifiedSupplier[]): SearchSnapshot {
+    const products = new Map<string, SnapshotProduct>();
+
+    const snapshotSuppliers = suppliers.map((supplier): SnapshotSupplier => {
+        supplier.products.forEach(product => {
+            const key = getProductKey(product.platform, product.id);
+            if (products.has(key)) return;
+            products.set(key, {
+                key,
+                title: product.title,
+                platform: product.platform,
+                supplierName: product.supplier.name || supplier.name,
+                url: product.productUrl,
+                price: product.price,
+            });
+        });
+
+        return {
+            key: getSupplierKey(supplier.platform, supplier.supplier.id, supplier.name),
+            name: supplier.supplier.name || supplier.name,
+            platform: supplier.platform,
+            url: supplier.supplier.url || supplier.url,
+            productCount: supplier.products.length,
+        };
+    });
+
+    return { suppliers: dedupeByKey(snapshotSuppliers), products: Array.from(products.values()) };
+}
+
+export function diffSearchSnapshots(previous: SearchSnapshot, current: SearchSnapshot): SearchDiff {
+    return {
+        addedSuppliers: missingFrom(current.suppliers, previous.suppliers),
+        removedSuppliers: missingFrom(previous.suppliers, current.suppliers),
+        addedProducts: missingFrom(current.products, previous.products),
+        removedProducts: missingFrom(previous.products, current.products),
+    };
+}
+
+export function countDiffChanges(diff: SearchDiff): number {
+    return diff.addedSuppliers.length + diff.removedSuppliers.length
+        + diff.addedProducts.length + diff.removedProducts.length;
+}
+
+function getProductKey(platform: string, productId: string): string {
+    return `${platform}-${productId}`;
+}
+
+/**
+ * Items of `items` whose key does not appear in `reference`.
+ */
+function missingFrom<T extends { key: string }>(items: T[], reference: T[]): T[] {
+    const keys = new Set(reference.map(r => r.key));
+    return items.filter(item => !keys.has(item.key));
+}
+
+function dedupeByKey<T extends { key: string }>(items: T[]): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        if (seen.has(item.key)) return false;
+        seen.add(item.key);
+        return true;
+    });
+}
@@ -1,19 +1,48 @@
-import { PlatformType, AggregatedSearchResult, SearchInput, UnifiedSupplier } from '@/lib/platforms/types';
+import {
+  ImageRegion,
+  PlatformType,
+  AggregatedSearchResult,
+  SearchCursor,
+  SearchInput,
+  SearchTaskStatus,
+  SearchType,
+  UnifiedSupplier,
+  UnifiedSearchEvent
+} from '@/lib/platforms/types';
+import { DEFAULT_PLATFORMS } from '@/lib/platforms/metadata';
+import { mergeSuppliers } from '@/lib/search/merge-service';
+
+export interface SearchUnifiedOptions {
+  /** Product search (default) or company-level supplier search */
+  searchType?: SearchType;
+  /** Cursors from a previous response, to fetch the next slice */
+  cursors?: SearchCursor[];
+  /** Called for every streamed event, e.g. to render partial results live */
+  onEvent?: (event: UnifiedSearchEvent) => void;
+  /** Ignore cached platform results and search the live sites */
+  forceRefresh?: boolean;
+  /** Exclusion terms applied to every input, on top of each input's own */
+  excludeTerms?: string[];
+}
 
 /**
- * Search across multiple platforms using the Unified Search API
+ * Search across multiple platforms using the Unified Search API.
+ * The API streams NDJSON events; the resolved value is the merged final state.
  */
 export async function searchUnified(
   inputs: SearchInput[],
-  platforms: PlatformType[] = ['alibaba', 'madeinchina']
+  platforms: PlatformType[] = DEFAULT_PLATFORMS,
+  options: SearchUnifiedOptions = {}
 ): Promise<AggregatedSearchResult> {
+  const { cursors, onEvent, searchType = 'products', forceRefresh = false, excludeTerms = [] } = options;
+
   try {
     const formData = new FormData();
 
     // Process text inputs
     const textInputs = inputs.filter(i => i.type === 'text');
     if (textInputs.length > 0) {
-      formData.append('queries', JSON.stringify(textInputs.map(i => ({ id: i.id, value: i.value }))));
+      formData.append('queries', JSON.stringify(textInputs.map(i => ({ id: i.id, value: i.value, excludeTerms: i.excludeTerms }))));
     }
 
     // Process image inputs
@@ -22,10 +51,31 @@ export async function searchUnified(
       if (input.file) {
         formData.append(`file_${input.id}`, input.file);
       }
+      if (input.regions && input.regions.length > 0) {
+        formData.append(`regions_${input.id}`, JSON.stringify(input.regions));
+      }
+      if (input.crop) {
+        formData.append(`crop_${input.id}`, JSON.stringify(input.crop));
+      }
+      if (input.excludeTerms && input.excludeTerms.length > 0) {
+        formData.append(`exclude_${input.id}`, JSON.stringify(input.excludeTerms));
+      }
     });
 
     // Platforms
     formData.append('platforms', JSON.stringify(platforms));
+    formData.append('searchType', searchType);
+    if (forceRefresh) {
+      formData.append('forceRefresh', 'true');
+    }
+    if (excludeTerms.length > 0) {
+      formData.append('excludeTerms', JSON.stringify(excludeTerms));
+    }
+
+    // Cursors
+    if (cursors && cursors.length > 0) {
+      formData.append('cursors', JSON.stringify(cursors));
+    }
 
     const response = await fetch('/api/search/unified', {
       method: 'POST',
@@ -36,27 +86,117 @@ export async function searchUnified(
       throw new Error(`Unified search failed: ${response.status}`);
     }
 
-    const data: AggregatedSearchResult = await response.json();
+    if (!response.body) {
+      throw new Error('Unified search returned an empty body');
+    }
+
+    let results: UnifiedSupplier[] = [];
+    let finalCursors: SearchCursor[] = cursors ?? [];
+    let hasMore = false;
+    const statuses: SearchTaskStatus[] = [];
 
-    // Client-side fixup if needed (e.g. restoring Dates)
-    return data;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        let event: UnifiedSearchEvent;
+        try {
+          event = JSON.parse(line);
+        } catch (e) {
+          console.error('Error parsing unified search chunk:', e);
+          continue;
+        }
+
+        if (event.type === 'partial') {
+          results = mergeSuppliers(results, event.results);
+          statuses.push(event.task);
+        } else if (event.type === 'complete') {
+          finalCursors = event.cursors;
+          hasMore = event.hasMore;
+        } else if (event.type === 'error') {
+          console.error('Unified search stream error:', event.error);
+        }
+
+        onEvent?.(event);
+      }
+    }
+
+    return {
+      inputs,
+      results,
+      searchType,
+      cursors: finalCursors,
+      hasMore,
+      statuses,
+      timestamp: Date.now()
+    };
 
   } catch (error) {
     console.error('Unified search error:', error);
     return {
       inputs,
       results: [],
+      searchType,
+      cursors: cursors ?? [],
+      hasMore: false,
+      statuses: [],
       timestamp: Date.now()
     };
   }
 }
 
+export interface DetectedImageRegions {
+  regions: ImageRegion[];
+  // Size of the preprocessed image the region boxes are measured against
+  imageSize: { width: number; height: number } | null;
+}
+
+/**
+ * Ask Alibaba which objects it sees in an image, for region selection.
+ * Returns no regions when detection fails; search then uses its defaults.
+ */
+export async function detectImageRegions(file: File): Promise<DetectedImageRegions> {
+  try {
+    const formData = new FormData();
+    formData.append('image', file);
+
+    const response = await fetch('/api/search/alibaba/image-regions', {
+      method: 'POST',
+      body: formData
+    });
+
+    if (!response.ok) {
+      throw new Error(`Region detection failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      regions: Array.isArray(data.regions) ? data.regions : [],
+      imageSize: data.width > 0 && data.height > 0 ? { width: data.width, height: data.height } : null
+    };
+  } catch (error) {
+    console.error('Region detection error:', error);
+    return { regions: [], imageSize: null };
+  }
+}
+
 /**
  * Legacy support / Single text search wrapper
  */
 export async function searchAllPlatforms(
   query: string,
-  platforms: PlatformType[] = ['alibaba', 'madeinchina']
+  platforms: PlatformType[] = DEFAULT_PLATFORMS
 ): Promise<AggregatedSearchResult> {
   const input: SearchInput = {
     id: 'legacy-query',
@@ -0,0 +1,123 @@
+import { MoqQuantity, UnifiedSupplier } from '@/lib/platforms/types';
+import { convertAmount } from '@/lib/search/currency-service';
+
+/**
+ * Shared comparators for supplier results.
+ * Value getters normalize platform fields to numbers, with prices converted to
+ * one currency; a supplier without a value (or with a price in an unknown
+ * currency) always sorts after every supplier with one, whatever the direction.
+ */
+
+// Currency prices are compared in across platforms
+const COMPARISON_CURRENCY = 'USD';
+
+// Alibaba's Gold Supplier badge, e.g. "Gold 5 yrs"
+const GOLD_YEARS_BADGE = /^Gold\s+\d+\s*yrs?/i;
+
+export type SortOption =
+    | 'relevance'
+    | 'price-asc'
+    | 'moq-asc'
+    | 'review-desc'
+    | 'gold-years-desc'
+    | 'products-desc'
+    | 'inputs-desc';
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+    { value: 'relevance', label: 'Relevance' },
+    { value: 'price-asc', label: 'Lowest price' },
+    { value: 'moq-asc', label: 'Lowest MOQ' },
+    { value: 'review-desc', label: 'Review score' },
+    { value: 'gold-years-desc', label: 'Gold supplier years' },
+    { value: 'products-desc', label: 'Products matched' },
+    { value: 'inputs-desc', label: 'Inputs matched' },
+];
+
+type Direction = 'asc' | 'desc';
+
+const SORT_KEYS: Record<Exclude<SortOption, 'relevance'>, { getValue: (s: UnifiedSupplier) => number | null; direction: Direction }> = {
+    'price-asc': { getValue: (s) => getNormalizedPrice(s), direction: 'asc' },
+    'moq-asc': { getValue: getSupplierMoq, direction: 'asc' },
+    'review-desc': { getValue: getReviewScore, direction: 'desc' },
+    'gold-years-desc': { getValue: getGoldYears, direction: 'desc' },
+    'products-desc': { getValue: (s) => s.products.length, direction: 'desc' },
+    'inputs-desc': { getValue: (s) => s.matchedInputIds?.length ?? 0, direction: 'desc' },
+};
+
+/**
+ * Return a new array sorted by the option. `relevance` keeps the incoming
+ * order (already ranked by the ranking service). The sort is stable.
+ */
+export function sortSuppliers(suppliers: UnifiedSupplier[], option: SortOption): UnifiedSupplier[] {
+    if (option === 'relevance') return suppliers;
+
+    const { getValue, direction } = SORT_KEYS[option];
+    return suppliers
+        .map((supplier, index) => ({ supplier, value: getValue(supplier), index }))
+        .sort((a, b) => compareValues(a.value, b.value, direction) || a.index - b.index)
+        .map(({ supplier }) => supplier);
+}
+
+/**
+ * Compare two optional numbers; missing values go last in both directions.
+ */
+export function compareValues(a: number | null, b: number | null, direction: Direction): number {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return direction === 'asc' ? a - b : b - a;
+}
+
+/**
+ * Lowest price of the supplier (falling back to its first priced product)
+ * converted to `currency`; null when it has no price or its currency is unknown.
+ */
+export function getNormalizedPrice(supplier: UnifiedSupplier, currency = COMPARISON_CURRENCY): number | null {
+    const range = supplier.priceRange ?? supplier.products.find(p => p.priceRange)?.priceRange;
+    if (!range?.currency) return null;
+    return convertAmount(range.min, range.currency, currency);
+}
+
+/**
+ * Parsed MOQ of the supplier, falling back to its first product with one.
+ */
+export function getSupplierMoqQuantity(supplier: UnifiedSupplier): MoqQuantity | null {
+    return supplier.moqQuantity ?? supplier.products.find(p => p.moqQuantity)?.moqQuantity ?? null;
+}
+
+export function getSupplierMoq(supplier: UnifiedSupplier): number | null {
+    return getSupplierMoqQuantity(supplier)?.quantity ?? null;
+}
+
+export function getReviewScore(supplier: UnifiedSupplier): number | null {
+    return parseLeadingNumber((supplier.platformSpecific as Record<string, unknown>).reviewScore);
+}
+
+/**
+ * Alibaba gold supplier years: `goldYearsNumber` from supplier search,
+ * `goldSupplierYears` ("2 yrs") from product search, or a "Gold N yrs" badge.
+ * Other platforms have no Gold Supplier programme, so their year badges
+ * (e.g. Global Sources membership) don't count.
+ */
+export function getGoldYears(supplier: UnifiedSupplier): number | null {
+    if (supplier.platform !== 'alibaba') return null;
+
+    const data = supplier.platformSpecific as Record<string, unknown>;
+    const direct = parseLeadingNumber(data.goldYearsNumber) ?? parseLeadingNumber(data.goldSupplierYears);
+    if (direct !== null) return direct;
+
+    const badge = supplier.supplier.verification.find(b => GOLD_YEARS_BADGE.test(b));
+    return badge ? parseLeadingNumber(badge) : null;
+}
+
+/**
+ * First number in a value such as "4.8", "25%", "US$1.20-3.50" or "1,000 Pieces".
+ */
+export function parseLeadingNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const match = value.match(/\d[\d,]*(\.\d+)?/);
+    if (!match) return null;
+    const parsed = Number(match[0].replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+}
@@ -1,100 +1,352 @@
 import {
+    AggregatedSearchResult,
     UnifiedSupplier,
     UnifiedProduct,
     PlatformType,
+    PlatformAdapter,
+    SearchCacheState,
+    SearchCursor,
     SearchInput,
+    SearchTaskStatus,
+    SearchType,
+    UnifiedSearchEvent,
 } from "@/lib/platforms/types";
-import { searchAlibabaText, searchAlibabaImage } from "@/lib/platforms/alibaba/service";
-import { searchMicText, searchMicImage } from "@/lib/platforms/madeinchina/service";
+import { getDefaultPlatforms, getPlatformAdapter } from "@/lib/platforms/registry";
+import { PlatformSearchError, classifySearchError, isRetryableSearchError } from "@/lib/platforms/errors";
+import { preprocessImage } from "@/lib/platforms/image-preprocessing";
+import { buildSearchCacheKey, SearchCacheOptions, withSearchCache } from "@/lib/search/result-cache";
+import { excludeFromSuppliers, excludeProducts, normalizeExcludeTerms } from "@/lib/search/exclusion-service";
+import { getSupplierKey, mergeSuppliers } from "@/lib/search/merge-service";
+
+export interface UnifiedSearchOptions {
+    /**
+     * Product search (default) or company-level supplier search. Supplier
+     * search is text-only; image inputs are reported as skipped.
+     */
+    searchType?: SearchType;
+    /**
+     * Cursors returned by a previous search. When present, only pairs with
+     * `hasMore` are fetched, each at its next page.
+     */
+    cursors?: SearchCursor[];
+    /**
+     * Receives progress events as the search runs, so callers can stream
+     * partial results instead of waiting for the slowest platform.
+     */
+    onEvent?: (event: UnifiedSearchEvent) => void;
+    /** Ignore cached platform results and fetch live (the fresh results are cached) */
+    forceRefresh?: boolean;
+    /** How long cached platform results stay fresh; defaults to SEARCH_CACHE_TTL_MINUTES */
+    cacheTtlMs?: number;
+    /**
+     * Exclusion terms for every input, added to each input's own
+     * `excludeTerms`. Matching products are dropped before grouping.
+     */
+    excludeTerms?: string[];
+}
+
+// A single platform call that takes longer than this is reported as a timeout
+const SEARCH_TASK_TIMEOUT_MS = 45_000;
+
+interface PlannedTask {
+    input: SearchInput;
+    adapter: PlatformAdapter;
+    page: number;
+}
+
+interface SearchTaskResult {
+    inputId: string;
+    platform: PlatformType;
+    products: UnifiedProduct[];
+    suppliers: UnifiedSupplier[]; // this task's results, already grouped by supplier
+    cursor: SearchCursor;
+    status: SearchTaskStatus;
+}
+
+interface AdapterResult {
+    products: UnifiedProduct[];
+    suppliers: UnifiedSupplier[]; // supplier-search hits; product hits are grouped after exclusions
+    hasMore: boolean;
+    cache: SearchCacheState;
+    cachedAt?: number;
+}
 
 /**
  * Execute unified search across multiple platforms and inputs
  * 
  * @param inputs List of search inputs (text or image)
- * @param platforms List of platforms to search on
- * @returns Aggregated list of UnifiedSupplier objects
+ * @param platforms List of platforms to search on (defaults to every registered adapter)
+ * @param options Paging cursors from a previous response and an optional event listener
+ * @returns Suppliers grouped from this slice plus the updated cursors
  */
 export async function searchUnified(
     inputs: SearchInput[],
-    platforms: PlatformType[] = ['alibaba', 'madeinchina']
-): Promise<UnifiedSupplier[]> {
+    platforms: PlatformType[] = getDefaultPlatforms(),
+    options: UnifiedSearchOptions = {}
+): Promise<AggregatedSearchResult> {
+
+    const searchType = options.searchType ?? 'products';
+    console.log(`Unified Service: Searching ${inputs.length} inputs on ${platforms.join(', ')} (${searchType})`);
 
-    console.log(`Unified Service: Searching ${inputs.length} inputs on ${platforms.join(', ')}`);
+    const emit = options.onEvent ?? (() => { });
+    const cacheOptions: SearchCacheOptions = { ttlMs: options.cacheTtlMs, forceRefresh: options.forceRefresh };
+    const serializableInputs = inputs.map(i => ({ id: i.id, type: i.type, value: i.value, excludeTerms: i.excludeTerms })); // Exclude file object
+    const globalExcludeTerms = options.excludeTerms ?? [];
 
-    // Create tasks
-    const tasks: Promise<{ inputId: string, platform: PlatformType, products: UnifiedProduct[] }>[] = [];
+    const previousCursors = new Map(
+        (options.cursors ?? []).map(c => [cursorKey(c.inputId, c.platform), c])
+    );
+    const isContinuation = previousCursors.size > 0;
+
+    // Plan tasks
+    const planned: PlannedTask[] = [];
+    const carriedCursors: SearchCursor[] = [];
 
     for (const input of inputs) {
         for (const platform of platforms) {
-            tasks.push(
-                (async () => {
-                    try {
-                        let results: UnifiedProduct[] = [];
-
-                        if (input.type === 'text') {
-                            if (platform === 'alibaba') {
-                                const res = await searchAlibabaText(input.value);
-                                results = res.unifiedProducts;
-                            } else if (platform === 'madeinchina') {
-                                const res = await searchMicText(input.value);
-                                results = res.unifiedProducts;
-                            }
-                        } else if (input.type === 'image' && input.file) {
-                            // Case 1: Browser/API File object (Blob)
-                            const blob = input.file;
-                            if (platform === 'alibaba') {
-                                const res = await searchAlibabaImage(blob);
-                                results = res.unifiedProducts;
-                            } else if (platform === 'madeinchina') {
-                                const res = await searchMicImage(blob);
-                                results = res.unifiedProducts;
-                            }
-                        } else if (input.type === 'image' && input.value && input.value.startsWith('data:')) {
-                            // Case 2: Base64 string (from Agent tools)
-                            // Convert base64 to Blob/Buffer for the services
-                            // The services currently expect Blob (File) objects because they use FormData.
-                            // We might need to polyfill/convert if running in Node environment (Agent) vs Edge/Browser.
-                            // For now, assuming standard Fetch API Blob availability or Node Buffer.
-
-                            const response = await fetch(input.value);
-                            const blob = await response.blob();
-
-                            if (platform === 'alibaba') {
-                                const res = await searchAlibabaImage(blob);
-                                results = res.unifiedProducts;
-                            } else if (platform === 'madeinchina') {
-                                const res = await searchMicImage(blob);
-                                results = res.unifiedProducts;
-                            }
-                        }
-
-                        return { inputId: input.id, platform, products: results };
-                    } catch (error) {
-                        console.error(`Search failed for input ${input.id} on ${platform}`, error);
-                        return { inputId: input.id, platform, products: [] };
-                    }
-                })()
-            );
+            const adapter = getPlatformAdapter(platform);
+            if (!adapter) {
+                console.warn(`Unified Service: No adapter registered for ${platform}`);
+                continue;
+            }
+
+            const previous = previousCursors.get(cursorKey(input.id, platform));
+            if (isContinuation && !previous) continue;
+            if (previous && !previous.hasMore) {
+                carriedCursors.push(previous);
+                continue;
+            }
+
+            planned.push({ input, adapter, page: previous ? previous.page + 1 : 1 });
         }
     }
 
-    const taskResults = await Promise.all(tasks);
+    emit({
+        type: 'start',
+        inputs: serializableInputs,
+        tasks: planned.map(({ input, adapter }) => ({
+            inputId: input.id,
+            platform: adapter.platform,
+            state: 'running',
+            resultCount: 0,
+            durationMs: 0
+        })),
+        timestamp: Date.now()
+    });
 
-    // Aggregate Results
-    // We add a temporary _sourceInputId to help with grouping
-    const allProductsWithSource: (UnifiedProduct & { _sourceInputId: string })[] = [];
+    // Run tasks, reporting each one as soon as it settles
+    const tasks = planned.map(async ({ input, adapter, page }): Promise<SearchTaskResult> => {
+        const platform = adapter.platform;
+        const startedAt = Date.now();
+        let result: SearchTaskResult;
 
-    taskResults.forEach(taskRes => {
-        taskRes.products.forEach(p => {
-            allProductsWithSource.push({
-                ...p,
-                _sourceInputId: taskRes.inputId
-            });
+        try {
+            const response = await withTimeout(
+                searchWithAdapter(adapter, input, page, searchType, cacheOptions),
+                SEARCH_TASK_TIMEOUT_MS,
+                `${adapter.label} did not respond within ${SEARCH_TASK_TIMEOUT_MS / 1000}s`
+            );
+            // Exclusions run after the cache, so cached results serve any exclusion list
+            const excludeTerms = normalizeExcludeTerms([...globalExcludeTerms, ...(input.excludeTerms ?? [])]);
+            const products = excludeProducts(response?.products ?? [], excludeTerms);
+            const suppliers = searchType === 'suppliers'
+                ? excludeFromSuppliers(response?.suppliers ?? [], excludeTerms)
+                : groupProductsIntoSuppliers(withSourceInput(products, input.id));
+            const fetchedCount = searchType === 'suppliers' ? response?.suppliers.length ?? 0 : response?.products.length ?? 0;
+            const resultCount = searchType === 'suppliers' ? suppliers.length : products.length;
+            result = {
+                inputId: input.id,
+                platform,
+                products,
+                suppliers,
+                cursor: {
+                    inputId: input.id,
+                    platform,
+                    page,
+                    hasMore: !!response?.hasMore && adapter.capabilities.pagination,
+                },
+                status: {
+                    inputId: input.id,
+                    platform,
+                    state: response ? 'done' : 'skipped',
+                    resultCount,
+                    durationMs: Date.now() - startedAt,
+                    ...(response && { cache: response.cache, cachedAt: response.cachedAt }),
+                    ...(fetchedCount > resultCount && { excludedCount: fetchedCount - resultCount }),
+                },
+            };
+        } catch (error) {
+            console.error(`Search failed for input ${input.id} on ${platform}`, error);
+            const taskError = classifySearchError(error);
+            result = {
+                inputId: input.id,
+                platform,
+                products: [],
+                suppliers: [],
+                // Stay on the previous page so "Load more" retries this one if it may succeed
+                cursor: { inputId: input.id, platform, page: page - 1, hasMore: isRetryableSearchError(taskError) },
+                status: {
+                    inputId: input.id,
+                    platform,
+                    state: 'failed',
+                    resultCount: 0,
+                    durationMs: Date.now() - startedAt,
+                    error: taskError,
+                },
+            };
+        }
+
+        emit({
+            type: 'partial',
+            task: result.status,
+            results: result.suppliers,
+            cursor: result.cursor,
+            timestamp: Date.now()
         });
+
+        return result;
     });
 
-    // Group into Suppliers
-    return groupProductsIntoSuppliers(allProductsWithSource);
+    const taskResults = await Promise.all(tasks);
+
+    // Aggregate Results: product hits are regrouped across tasks, supplier hits merged by key
+    const results = searchType === 'suppliers'
+        ? taskResults.reduce<UnifiedSupplier[]>((merged, t) => mergeSuppliers(merged, t.suppliers), [])
+        : groupProductsIntoSuppliers(taskResults.flatMap(t => withSourceInput(t.products, t.inputId)));
+    const cursors = [...carriedCursors, ...taskResults.map(t => t.cursor)];
+    const hasMore = cursors.some(c => c.hasMore);
+    const statuses = taskResults.map(t => t.status);
+
+    const failed = statuses.filter(s => s.state === 'failed');
+    if (failed.length > 0) {
+        console.warn(`Unified Service: ${failed.length}/${statuses.length} tasks failed`);
+    }
+
+    emit({ type: 'complete', cursors, hasMore, timestamp: Date.now() });
+
+    return {
+        inputs: serializableInputs,
+        results,
+        searchType,
+        cursors,
+        hasMore,
+        statuses,
+        timestamp: Date.now()
+    };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new PlatformSearchError('timeout', message)), ms);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * We add a temporary _sourceInputId to help with grouping
+ */
+function withSourceInput(products: UnifiedProduct[], inputId: string): (UnifiedProduct & { _sourceInputId: string })[] {
+    return products.map(p => ({ ...p, _sourceInputId: inputId }));
+}
+
+function cursorKey(inputId: string, platform: PlatformType): string {
+    return `${inputId}:${platform}`;
+}
+
+/**
+ * Dispatch a single input to an adapter based on the search type, the input
+ * type and the adapter's declared capabilities. Returns null when the adapter
+ * cannot handle the input. Platform responses go through the result cache
+ * before input ids are attached, so any search with the same query can reuse them.
+ */
+async function searchWithAdapter(
+    adapter: PlatformAdapter,
+    input: SearchInput,
+    page: number = 1,
+    searchType: SearchType = 'products',
+    cacheOptions: SearchCacheOptions = {}
+): Promise<AdapterResult | null> {
+    const platform = adapter.platform;
+
+    if (searchType === 'suppliers') {
+        const { searchSuppliers } = adapter;
+        if (input.type !== 'text' || !adapter.capabilities.supplierSearch || !searchSuppliers) return null;
+
+        const { value: response, cache, cachedAt } = await withSearchCache(
+            buildSearchCacheKey({ platform, searchType, page, query: input.value }),
+            platform,
+            () => searchSuppliers(input.value, page),
+            r => r.suppliers.length === 0,
+            cacheOptions
+        );
+        return {
+            products: [],
+            suppliers: response.suppliers.map(s => ({ ...s, matchedInputIds: [input.id] })),
+            hasMore: response.hasMore,
+            cache,
+            cachedAt,
+        };
+    }
+
+    let cached;
+    if (input.type === 'text') {
+        if (!adapter.capabilities.textSearch) return null;
+        cached = await withSearchCache(
+            buildSearchCacheKey({ platform, searchType, page, query: input.value }),
+            platform,
+            () => adapter.searchText(input.value, page),
+            r => r.products.length === 0,
+            cacheOptions
+        );
+    } else {
+        const { searchImage } = adapter;
+        if (!adapter.capabilities.imageSearch || !searchImage) return null;
+
+        const image = await resolveImageBlob(input);
+        if (!image) return null;
+
+        // Each platform gets the image normalized to its own format and size limits
+        const processed = await preprocessImage(image, adapter.imageRequirements, input.crop);
+        cached = await withSearchCache(
+            buildSearchCacheKey({
+                platform,
+                searchType,
+                page,
+                imageHash: processed.hash,
+                regionIds: input.regions?.map(r => r.id),
+            }),
+            platform,
+            () => searchImage(processed, page, { regions: input.regions }),
+            r => r.products.length === 0,
+            cacheOptions
+        );
+    }
+
+    const { value: response, cache, cachedAt } = cached;
+    return {
+        products: response.products,
+        suppliers: [],
+        hasMore: response.hasMore,
+        cache,
+        cachedAt,
+    };
+}
+
+/**
+ * Image inputs arrive either as a File (browser / API upload) or as a
+ * base64 data URI (agent tools). Either way it is preprocessed per adapter.
+ */
+async function resolveImageBlob(input: SearchInput): Promise<Blob | null> {
+    if (input.file) return input.file;
+
+    if (input.value && input.value.startsWith('data:')) {
+        const response = await fetch(input.value);
+        return response.blob();
+    }
+
+    return null;
 }
 
 
@@ -104,7 +356,7 @@ function groupProductsIntoSuppliers(products: (UnifiedProduct & { _sourceInputId
     products.forEach(product => {
         // Create a unique key for the supplier
         const supplierName = product.supplier.name || 'Unknown Supplier';
-        const supplierKey = `${product.platform}-${product.supplier.id || supplierName}`;
+        const supplierKey = getSupplierKey(product.platform, product.supplier.id, supplierName);
 
         if (!supplierMap.has(supplierKey)) {
             supplierMap.set(supplierKey, {
@@ -113,7 +365,9 @@ function groupProductsIntoSuppliers(products: (UnifiedProduct & { _sourceInputId
                 name: supplierName,
                 price: null,
                 currency: product.currency,
+                priceRange: null,
                 moq: null,
+                moqQuantity: null,
                 images: [],
                 products: [],
                 supplier: {
@@ -142,7 +396,9 @@ function groupProductsIntoSuppliers(products: (UnifiedProduct & { _sourceInputId
             // (or accumulate images from all products)
             if (supplier.products.length === 1) {
                 supplier.price = product.price;
+                supplier.priceRange = product.priceRange;
                 supplier.moq = product.moq;
+                supplier.moqQuantity = product.moqQuantity;
                 supplier.description = product.attributes ? Object.entries(product.attributes).map(([k, v]) => `${k}: ${v}`).join(', ') : undefined;
                 supplier.platformSpecific = product.platformSpecific;
             }
@@ -32,3 +32,14 @@ export async function createClient() {
     },
   );
 }
+
+/**
+ * Id of the signed-in user, or null for anonymous requests.
+ */
+export async function getCurrentUserId(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+): Promise<string | null> {
+  const { data, error } = await supabase.auth.getClaims();
+  if (error || !data?.claims) return null;
+  return data.claims.sub ?? null;
+}
@@ -2,6 +2,7 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   cacheComponents: true,
+  serverExternalPackages: ['heic-decode'], // Loads libheif's wasm build at runtime
   images: {
     unoptimized: true, // Bypass optimization to avoid private IP resolution issues in dev/VPN
     remotePatterns: [
@@ -13,6 +14,18 @@ const nextConfig: NextConfig = {
         protocol: 'https',
         hostname: '**.made-in-china.com',
       },
+      {
+        protocol: 'https',
+        hostname: '**.globalsources.com',
+      },
+      {
+        protocol: 'https',
+        hostname: '**.dhresource.com',
+      },
+      {
+        protocol: 'https',
+        hostname: '**.imimg.com',
+      },
     ],
   },
 };
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { parse1688ProductDetail, parse1688SearchResponse } from '../lib/platforms/1688/parser';
+import { map1688DetailToUnifiedProduct, map1688ToUnifiedProduct } from '../lib/platforms/1688/product-mapper';
+import { parse1688OfferId } from '../lib/platforms/1688/service';
+import { UnifiedProduct } from '../lib/platforms/types';
+
+// Maps the 1688 search response and detail page samples in docs/ and exits
+// with code 1 if offers lose their CNY prices, MOQ units or TrustPass / factory
+// badges, or if detail lookups accept URLs outside detail.1688.com.
+// Run with: npx tsx scripts/test-1688-mapper.ts
+
+const searchFixture = path.resolve(__dirname, '../docs/sample_1688.json');
+const detailFixture = path.resolve(__dirname, '../docs/sample_1688_detail.html');
+const detailDomFixture = path.resolve(__dirname, '../docs/sample_1688_detail_dom.html');
+
+const failures: string[] = [];
+
+function expect(source: string, condition: boolean, message: string) {
+    if (!condition) failures.push(`${source}: ${message}`);
+}
+
+function checkCommon(source: string, product: UnifiedProduct) {
+    expect(source, product.platform === '1688', `product ${product.id} has platform ${product.platform}`);
+    expect(source, product.title !== 'Untitled Product', `product ${product.id} has placeholder title`);
+    expect(source, product.currency === 'CNY', `product ${product.id} currency is ${product.currency}`);
+    expect(source, product.priceRange?.currency === 'CNY', `product ${product.id} price range is not CNY`);
+    expect(source, product.image.startsWith('https://'), `product ${product.id} image is not absolute: ${product.image}`);
+}
+
+function badgesOf(product: UnifiedProduct): string[] {
+    return product.supplier.badges ?? [];
+}
+
+// Offer search JSON
+const { offers, totalCount } = parse1688SearchResponse(JSON.parse(fs.readFileSync(searchFixture, 'utf-8')));
+const products = offers.map(map1688ToUnifiedProduct);
+
+expect('sample_1688.json', products.length === 3, `expected 3 offers, got ${products.length}`);
+expect('sample_1688.json', totalCount === 4000, `totalCount is ${totalCount}`);
+products.forEach(product => checkCommon('sample_1688.json', product));
+
+const [cup, bag, steel] = products;
+if (cup) {
+    expect('sample_1688.json', cup.price === '¥8.80-12.50', `tiered price is ${cup.price}`);
+    expect('sample_1688.json', cup.priceRange?.min === 8.8 && cup.priceRange?.max === 12.5, 'tiered price range not parsed');
+    expect('sample_1688.json', cup.moq === '≥2个', `MOQ is ${cup.moq}`);
+    expect('sample_1688.json', cup.moqQuantity?.quantity === 2 && cup.moqQuantity.unit === 'pieces', 'MOQ 个 not parsed as 2 pieces');
+    expect('sample_1688.json', badgesOf(cup).includes('TrustPass 9 yrs'), `badges are ${badgesOf(cup).join(', ')}`);
+    expect('sample_1688.json', badgesOf(cup).includes('Super Factory'), 'Super Factory badge missing');
+    expect('sample_1688.json', badgesOf(cup).includes('Factory Inspected'), 'Factory Inspected badge missing');
+    expect('sample_1688.json', cup.supplier.url === 'https://hengdacup.1688.com', `supplier url is ${cup.supplier.url}`);
+    expect('sample_1688.json', cup.supplier.location === '金华, 浙江', `location is ${cup.supplier.location}`);
+}
+if (bag) {
+    expect('sample_1688.json', bag.price === '¥23.00', `single price is ${bag.price}`);
+    expect('sample_1688.json', bag.productUrl === 'https://detail.1688.com/offer/718802345566.html', `product url is ${bag.productUrl}`);
+    expect('sample_1688.json', badgesOf(bag).includes('TrustPass 3 yrs') && badgesOf(bag).includes('Factory'), `badges are ${badgesOf(bag).join(', ')}`);
+}
+if (steel) {
+    expect('sample_1688.json', steel.priceRange?.min === 15500, `large price parsed as ${steel.priceRange?.min}`);
+    expect('sample_1688.json', steel.moqQuantity?.unit === 'tons', 'MOQ 吨 not parsed as tons');
+}
+console.log(`sample_1688.json: checked ${products.length} offers, e.g. "${cup?.title}" ${cup?.price}`);
+
+// Detail pages: embedded __INIT_DATA first, rendered DOM as fallback
+[
+    { file: detailFixture, url: 'https://detail.1688.com/offer/652314789012.html', source: 'init-data', price: '¥8.80-12.50', moq: '≥2个' },
+    { file: detailDomFixture, url: 'https://detail.1688.com/offer/718802345566.html', source: 'dom', price: '¥19.50-23.00', moq: '≥50件' },
+].forEach(({ file, url, source, price, moq }) => {
+    const name = path.basename(file);
+    const detail = parse1688ProductDetail(fs.readFileSync(file, 'utf-8'), url);
+    if (!detail) {
+        failures.push(`${name}: detail not parsed`);
+        return;
+    }
+
+    const product = map1688DetailToUnifiedProduct(detail, url);
+    checkCommon(name, product);
+    expect(name, detail.source === source, `parsed from ${detail.source}, expected ${source}`);
+    expect(name, product.id === url.match(/(\d+)\.html/)?.[1], `id is ${product.id}`);
+    expect(name, product.price === price, `price is ${product.price}`);
+    expect(name, product.moq === moq, `MOQ is ${product.moq}`);
+    expect(name, product.images.length === 2, `expected 2 images, got ${product.images.length}`);
+    expect(name, Object.keys(product.attributes).length >= 2, 'attributes missing');
+    expect(name, !!product.supplier.name && product.supplier.name !== 'Unknown Supplier', 'supplier name missing');
+    console.log(`${name}: "${product.title}" ${product.price} from ${detail.source}`);
+});
+
+// Detail URLs: only 1688 offer pages may reach the server-side fetch
+[
+    { input: '652314789012', offerId: '652314789012' },
+    { input: 'https://detail.1688.com/offer/652314789012.html', offerId: '652314789012' },
+    { input: '//detail.1688.com/offer/652314789012.html?spm=a26352', offerId: '652314789012' },
+    { input: 'https://evil.example/offer/652314789012.html', offerId: null },
+    { input: 'https://detail.1688.com.evil.example/offer/1.html', offerId: null },
+    { input: 'https://detail.1688.com@evil.example/offer/1.html', offerId: null },
+    { input: 'http://169.254.169.254/latest/meta-data', offerId: null },
+    { input: 'https://detail.1688.com/other/1.html', offerId: null },
+    { input: 'file:///etc/passwd', offerId: null },
+].forEach(({ input, offerId }) => {
+    const parsed = parse1688OfferId(input);
+    expect('parse1688OfferId', parsed === offerId, `"${input}" gave ${parsed}, expected ${offerId}`);
+});
+
+if (failures.length > 0) {
+    console.error(`\n${failures.length} failure(s):`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+}
+
+console.log('\nAll 1688 fixture checks passed.');
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { mapAlibabaToUnified } from '../lib/platforms/alibaba/mapper';
+import { mapAlibabaToUnifiedProduct } from '../lib/platforms/alibaba/product-mapper';
+import { UnifiedProduct } from '../lib/platforms/types';
+
+// Fixture check: fails (exit code 1) if Alibaba product titles regress to a
+// placeholder or keep the badge markup Alibaba embeds in titles.
+// Run with: npx tsx scripts/test-alibaba-titles.ts
+
+const supplierFixture = path.resolve(__dirname, '../docs/sample_alibaba.json');
+const offerListFixture = path.resolve(__dirname, '../docs/test.json');
+
+const PLACEHOLDER_TITLES = new Set(['Product', 'Untitled Product', 'Alibaba Product', '']);
+
+const failures: string[] = [];
+
+function checkTitles(source: string, products: UnifiedProduct[]) {
+    if (products.length === 0) {
+        failures.push(`${source}: no products mapped`);
+        return;
+    }
+
+    products.forEach(product => {
+        if (PLACEHOLDER_TITLES.has(product.title.trim())) {
+            failures.push(`${source}: product ${product.id} has placeholder title "${product.title}"`);
+        }
+        if (/<[^>]+>/.test(product.title)) {
+            failures.push(`${source}: product ${product.id} title contains markup: ${product.title}`);
+        }
+    });
+
+    console.log(`${source}: checked ${products.length} titles, e.g. "${products[0].title}"`);
+}
+
+// supplierTextSearch payload -> productList sub-products
+const supplierJson = JSON.parse(fs.readFileSync(supplierFixture, 'utf-8'));
+const suppliers = mapAlibabaToUnified(supplierJson);
+const subProducts = suppliers.flatMap(s => s.products);
+checkTitles('sample_alibaba.json', subProducts);
+
+// The sponsored listing carries the full subject; it must win over the URL slug
+const sponsored = subProducts.find(p => p.id === 'alibaba-1601496778544');
+if (!sponsored?.title.startsWith('Modern Eco-Friendly Modular Couch Sofa Set')) {
+    failures.push(`sample_alibaba.json: sponsored product title not taken from creativeInfo ("${sponsored?.title}")`);
+}
+
+if (!subProducts.some(p => Object.keys(p.attributes).length > 0)) {
+    failures.push('sample_alibaba.json: no sub-product attributes mapped');
+}
+
+// _offer_list payload -> product search results
+const offerListJson = JSON.parse(fs.readFileSync(offerListFixture, 'utf-8'));
+checkTitles('test.json', (offerListJson.offers ?? []).map(mapAlibabaToUnifiedProduct));
+
+if (failures.length > 0) {
+    console.error(`\n${failures.length} title check(s) failed:`);
+    failures.forEach(f => console.error(`  - ${f}`));
+    process.exit(1);
+}
+
+console.log('\nAll Alibaba title checks passed.');
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { parseDHgateSearch } from '../lib/platforms/dhgate/parser';
+import { mapDHgateToUnifiedProduct, parsePriceTiers, parseShippingEstimate } from '../lib/platforms/dhgate/product-mapper';
+
+// Exits with code 1 when DHgate gallery cards lose their quantity price tiers,
+// shipping estimates or merchant badges, or when a page without the result
+// gallery is no longer reported as such.
+// Run with: npx tsx scripts/test-dhgate-parser.ts
+
+const searchFixture = path.resolve(__dirname, '../docs/dhgate-search.html');
+
+const failures: string[] = [];
+
+function expect(source: string, condition: boolean, message: string) {
+    if (!condition) failures.push(`${source}: ${message}`);
+}
+
+// Search page
+const { items, totalCount, listFound } = parseDHgateSearch(fs.readFileSync(searchFixture, 'utf-8'));
+const products = items.map(mapDHgateToUnifiedProduct);
+const [earbuds, headphones] = products;
+
+expect('dhgate-search.html', products.length === 2, `expected 2 products, got ${products.length}`);
+expect('dhgate-search.html', totalCount === 3527, `totalCount is ${totalCount}`);
+expect('dhgate-search.html', listFound, 'result gallery not found');
+products.forEach(product => {
+    expect('dhgate-search.html', product.platform === 'dhgate', `product ${product.id} has platform ${product.platform}`);
+    expect('dhgate-search.html', product.image.startsWith('https://'), `image is ${product.image}`);
+    expect('dhgate-search.html', product.productUrl.startsWith('https://www.dhgate.com/'), `product url is ${product.productUrl}`);
+    expect('dhgate-search.html', product.currency === 'USD', `product ${product.id} currency is ${product.currency}`);
+});
+
+if (earbuds) {
+    const tiers = earbuds.priceTiers ?? [];
+    expect('dhgate-search.html', earbuds.id === '918273645', `id is ${earbuds.id}`);
+    expect('dhgate-search.html', earbuds.priceRange?.min === 3.25 && earbuds.priceRange.max === 3.89, `price is ${earbuds.price}`);
+    expect('dhgate-search.html', earbuds.moqQuantity?.quantity === 1, `MOQ is ${earbuds.moq}`);
+    expect('dhgate-search.html', tiers.length === 3, `expected 3 tiers, got ${tiers.length}`);
+    expect('dhgate-search.html', tiers.map(t => t.minQuantity).join(',') === '1,10,50', `tiers are not sorted: ${JSON.stringify(tiers)}`);
+    expect('dhgate-search.html', tiers[2]?.maxQuantity === null && tiers[2]?.price === 3.25, `"50+" tier is ${JSON.stringify(tiers[2])}`);
+    expect('dhgate-search.html', earbuds.shipping?.free === true && earbuds.shipping.cost === 0, `shipping is ${JSON.stringify(earbuds.shipping)}`);
+    expect('dhgate-search.html', earbuds.shipping?.minDays === 7 && earbuds.shipping.maxDays === 15, 'delivery days not parsed');
+    expect('dhgate-search.html', (earbuds.supplier.badges ?? []).includes('Top Merchant'), 'Top Merchant badge missing');
+}
+
+if (headphones) {
+    expect('dhgate-search.html', (headphones.priceTiers ?? []).length === 0, 'card without tiers has tiers');
+    expect('dhgate-search.html', headphones.shipping?.free === false && headphones.shipping.cost === 2.5, `shipping is ${JSON.stringify(headphones.shipping)}`);
+    expect('dhgate-search.html', headphones.shipping?.method === 'ePacket', `method is ${headphones.shipping?.method}`);
+    expect('dhgate-search.html', headphones.shipping?.minDays === 20 && headphones.shipping.maxDays === 20, 'single delivery day not parsed');
+    expect('dhgate-search.html', headphones.supplier.id === '20998877', `store id is ${headphones.supplier.id}`);
+    expect('dhgate-search.html', (headphones.supplier.badges ?? []).length === 0, 'store without badges has badges');
+}
+
+console.log(`dhgate-search.html: ${products.length} products, e.g. "${earbuds?.title}" ${earbuds?.price}`);
+
+// Pages without results: an empty gallery is a real "no results", a missing one is not
+const emptyGallery = parseDHgateSearch('<div class="gallery-main"></div>');
+expect('empty gallery', emptyGallery.items.length === 0 && emptyGallery.listFound, 'empty gallery not recognised');
+const otherPage = parseDHgateSearch('<div class="home-banner"><a href="/wholesale/">Shop now</a></div>');
+expect('page without gallery', !otherPage.listFound, 'page without a gallery reported a result list');
+
+// Price tier rows
+const tiers = parsePriceTiers([
+    { quantity: '100 or more', price: 'US $1.10' },
+    { quantity: '1,000 - 4,999 Pieces', price: 'US $0.95' },
+    { quantity: '5 Pieces', price: 'US $1.50' },
+    { quantity: 'Wholesale', price: 'US $1.00' },
+    { quantity: '10 - 99', price: 'Contact seller' },
+]);
+expect('parsePriceTiers', tiers.length === 3, `expected 3 tiers, got ${tiers.length}`);
+expect('parsePriceTiers', tiers[0]?.minQuantity === 5 && tiers[0].maxQuantity === 5, `single quantity tier is ${JSON.stringify(tiers[0])}`);
+expect('parsePriceTiers', tiers[1]?.minQuantity === 100 && tiers[1].maxQuantity === null, `open-ended tier is ${JSON.stringify(tiers[1])}`);
+expect('parsePriceTiers', tiers[2]?.minQuantity === 1000 && tiers[2].maxQuantity === 4999, `comma quantities are ${JSON.stringify(tiers[2])}`);
+expect('parsePriceTiers', tiers.every(t => t.currency === 'USD'), 'tier currency not detected');
+
+// Shipping and delivery text
+const noShipping = parseShippingEstimate(null, null);
+expect('parseShippingEstimate', noShipping === null, 'empty card produced a shipping estimate');
+
+const deliveryOnly = parseShippingEstimate(null, 'Estimated delivery: 12-25 days');
+expect('parseShippingEstimate', deliveryOnly?.free === false && deliveryOnly.cost === null, `delivery-only estimate is ${JSON.stringify(deliveryOnly)}`);
+expect('parseShippingEstimate', deliveryOnly?.minDays === 12 && deliveryOnly.maxDays === 25, 'delivery-only days not parsed');
+
+const paid = parseShippingEstimate('Shipping: US $12.80 via DHL', null);
+expect('parseShippingEstimate', paid?.cost === 12.8 && paid.currency === 'USD' && paid.method === 'DHL', `paid shipping is ${JSON.stringify(paid)}`);
+expect('parseShippingEstimate', paid?.minDays === null && paid.maxDays === null, 'missing delivery days were invented');
+
+if (failures.length > 0) {
+    console.error(`\n${failures.length} failure(s):`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+}
+
+console.log('\nAll DHgate fixture checks passed.');
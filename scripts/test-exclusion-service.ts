@@ -0,0 +1,63 @@
+import { isProductExcluded, parseQueryExclusions } from '../lib/search/exclusion-service';
+import { UnifiedProduct } from '../lib/platforms/types';
+
+// Check: fails (exit code 1) if exclusion terms stop matching whole words and
+// their plural forms in product titles and attribute values.
+// Run with: npx tsx scripts/test-exclusion-service.ts
+
+const failures: string[] = [];
+
+function product(title: string, attributes: Record<string, string> = {}): UnifiedProduct {
+    return {
+        id: title,
+        platform: 'alibaba',
+        title,
+        image: '',
+        images: [],
+        price: null,
+        currency: null,
+        priceRange: null,
+        moq: null,
+        moqQuantity: null,
+        productUrl: '',
+        attributes,
+        supplier: { id: 's1', name: 'Supplier', url: '' },
+        platformSpecific: {},
+    };
+}
+
+[
+    { term: 'part', title: 'CNC Lathe Spare Parts', excluded: true },
+    { term: 'part', title: 'CNC Lathe Spare Part', excluded: true },
+    { term: 'part', title: 'Trusted Partner Lathe', excluded: false },
+    { term: 'accessory', title: 'Phone Accessories Set', excluded: true },
+    { term: 'accessories', title: 'Single phone accessory', excluded: true },
+    { term: 'box', title: 'Gift Boxes Wholesale', excluded: true },
+    { term: 'toy', title: 'Plush Toys for Kids', excluded: true },
+    { term: 'toy', title: 'Toyota seat cover', excluded: false },
+    { term: 'tool holder', title: 'ER32 Tool Holders', excluded: true },
+    { term: 'glass', title: 'Glasses Case', excluded: true },
+    { term: 'c++', title: 'C++ Programming Book', excluded: true },
+    { term: 'used', title: 'Brand new lathe', excluded: false },
+].forEach(({ term, title, excluded }) => {
+    if (isProductExcluded(product(title), [term]) !== excluded) {
+        failures.push(`"${term}" ${excluded ? 'should' : 'should not'} exclude "${title}"`);
+    }
+});
+
+if (!isProductExcluded(product('Lathe', { Condition: 'Used Parts' }), ['part'])) {
+    failures.push('"part" should exclude a product whose attribute value is "Used Parts"');
+}
+
+const { value, excludeTerms } = parseQueryExclusions('cnc lathe -Spare -"tool holder"');
+if (value !== 'cnc lathe' || excludeTerms.join('|') !== 'spare|tool holder') {
+    failures.push(`query parsed as "${value}" excluding ${JSON.stringify(excludeTerms)}`);
+}
+
+if (failures.length > 0) {
+    console.error(`${failures.length} failure(s):`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+}
+
+console.log('All exclusion checks passed.');
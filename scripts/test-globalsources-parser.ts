@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { parseGSProductSearch, parseGSSupplierSearch } from '../lib/platforms/globalsources/parser';
+import { mapGSToUnifiedProduct } from '../lib/platforms/globalsources/product-mapper';
+import { mapGSToUnifiedSuppliers } from '../lib/platforms/globalsources/mapper';
+import { applyFilters } from '../lib/search/filter-service';
+import { getGoldYears } from '../lib/search/sort-service';
+
+// Checks the product and supplier listing parsers against docs/gs-*search.html:
+// prices, MOQs, verification badges, the seller fields the platform filters
+// read, and that a page without a result list is flagged. Exits with code 1 on
+// any mismatch.
+// Run with: npx tsx scripts/test-globalsources-parser.ts
+
+const productFixture = path.resolve(__dirname, '../docs/gs-productsearch.html');
+const supplierFixture = path.resolve(__dirname, '../docs/gs-suppliersearch.html');
+
+const failures: string[] = [];
+
+function expect(source: string, condition: boolean, message: string) {
+    if (!condition) failures.push(`${source}: ${message}`);
+}
+
+// Product search listing
+const productPage = parseGSProductSearch(fs.readFileSync(productFixture, 'utf-8'));
+const products = productPage.items.map(mapGSToUnifiedProduct);
+const [earbuds, sports, kids] = products;
+
+expect('gs-productsearch.html', products.length === 3, `expected 3 products, got ${products.length}`);
+expect('gs-productsearch.html', productPage.totalCount === 1248, `totalCount is ${productPage.totalCount}`);
+expect('gs-productsearch.html', productPage.listFound, 'product list not found');
+products.forEach(product => {
+    expect('gs-productsearch.html', product.platform === 'globalsources', `product ${product.id} has platform ${product.platform}`);
+    expect('gs-productsearch.html', product.productUrl.startsWith('https://www.globalsources.com/'), `product url is ${product.productUrl}`);
+    expect('gs-productsearch.html', product.image.startsWith('https://'), `image is ${product.image}`);
+});
+if (earbuds) {
+    expect('gs-productsearch.html', earbuds.id === '1211876543', `id is ${earbuds.id}`);
+    expect('gs-productsearch.html', earbuds.currency === 'USD' && earbuds.priceRange?.min === 8.5 && earbuds.priceRange?.max === 11.2, `price is ${earbuds.price}`);
+    expect('gs-productsearch.html', earbuds.priceRange?.unit === 'Piece', `price unit is ${earbuds.priceRange?.unit}`);
+    expect('gs-productsearch.html', earbuds.moqQuantity?.quantity === 500 && earbuds.moqQuantity.unit === 'pieces', `MOQ is ${earbuds.moq}`);
+    expect('gs-productsearch.html', earbuds.supplier.id === '6008812345678', `supplier id is ${earbuds.supplier.id}`);
+    expect('gs-productsearch.html', earbuds.attributes['Model Number'] === 'TWS-A40', 'attributes not parsed');
+    const badges = earbuds.supplier.badges ?? [];
+    ['Verified Manufacturer', 'Trade Show Exhibitor', 'Global Sources 8 yrs'].forEach(badge => {
+        expect('gs-productsearch.html', badges.includes(badge), `badge "${badge}" missing from ${badges.join(', ')}`);
+    });
+}
+if (sports) {
+    expect('gs-productsearch.html', sports.id === '1209988776', `id from url is ${sports.id}`);
+    expect('gs-productsearch.html', sports.title === 'Open-Ear Sports Bluetooth Earphones', `title is "${sports.title}"`);
+    expect('gs-productsearch.html', sports.moqQuantity?.quantity === 1000, `MOQ is ${sports.moq}`);
+    expect('gs-productsearch.html', sports.supplier.id === '6008898765432', `supplier id from url is ${sports.supplier.id}`);
+    expect('gs-productsearch.html', (sports.supplier.badges ?? []).includes('Verified Supplier'), 'Verified Supplier badge missing');
+}
+if (kids) {
+    expect('gs-productsearch.html', kids.priceRange === null, 'negotiable price parsed as a number');
+    expect('gs-productsearch.html', kids.moqQuantity?.unit === 'sets', `MOQ unit is ${kids.moqQuantity?.unit}`);
+    expect('gs-productsearch.html', (kids.supplier.badges ?? []).length === 0, 'unverified supplier has badges');
+}
+console.log(`gs-productsearch.html: ${products.length} products, e.g. "${earbuds?.title}" ${earbuds?.price}`);
+
+// Supplier search listing
+const supplierPage = parseGSSupplierSearch(fs.readFileSync(supplierFixture, 'utf-8'));
+const suppliers = mapGSToUnifiedSuppliers(supplierPage.items);
+const [soundwave, audiolink] = suppliers;
+
+expect('gs-suppliersearch.html', suppliers.length === 2, `expected 2 suppliers, got ${suppliers.length}`);
+expect('gs-suppliersearch.html', supplierPage.totalCount === 86, `totalCount is ${supplierPage.totalCount}`);
+expect('gs-suppliersearch.html', supplierPage.listFound, 'supplier list not found');
+if (soundwave) {
+    expect('gs-suppliersearch.html', soundwave.id === 'globalsources-6008812345678', `id is ${soundwave.id}`);
+    expect('gs-suppliersearch.html', soundwave.products.length === 2, `expected 2 products, got ${soundwave.products.length}`);
+    expect('gs-suppliersearch.html', soundwave.priceRange?.min === 8.5, 'supplier price not taken from its first product');
+    expect('gs-suppliersearch.html', soundwave.description === 'TWS Earbuds, Bluetooth Headphones, Neckband Earphones', `description is ${soundwave.description}`);
+    expect('gs-suppliersearch.html', soundwave.supplier.verification.includes('Verified Manufacturer'), 'Verified Manufacturer badge missing');
+    expect('gs-suppliersearch.html', soundwave.images[0]?.endsWith('logo.png'), 'logo is not the first image');
+}
+if (audiolink) {
+    expect('gs-suppliersearch.html', audiolink.products.length === 0 && audiolink.priceRange === null, 'supplier without products has a price');
+    expect('gs-suppliersearch.html', audiolink.supplier.location === 'Hong Kong', `location is ${audiolink.supplier.location}`);
+    expect('gs-suppliersearch.html', audiolink.supplier.verification.includes('Global Sources 12 yrs'), 'years badge missing');
+    expect('gs-suppliersearch.html', getGoldYears(audiolink) === null, 'membership years read as Alibaba gold years');
+}
+console.log(`gs-suppliersearch.html: ${suppliers.length} suppliers, e.g. "${soundwave?.name}" [${soundwave?.supplier.verification.join(', ')}]`);
+
+// Pages without a result list must not pass for "no results"
+const blockPage = '<div class="access-denied">Please verify you are a human</div>';
+expect('block page', !parseGSProductSearch(blockPage).listFound, 'product parser found a list');
+expect('block page', !parseGSSupplierSearch(blockPage).listFound, 'supplier parser found a list');
+expect('empty list', parseGSProductSearch('<ul class="product-list"></ul>').listFound, 'empty product list not recognised');
+
+// Platform filters read the seller fields kept in platformSpecific
+const manufacturers = applyFilters(suppliers, [{ filterId: 'gs-verified-manufacturer', value: true }]);
+expect('filters', manufacturers.length === 1 && manufacturers[0] === soundwave, `verified manufacturer filter kept ${manufacturers.length}`);
+const veterans = applyFilters(suppliers, [{ filterId: 'gs-years', value: { min: 10, max: 30 } }]);
+expect('filters', veterans.length === 1 && veterans[0] === audiolink, `years filter kept ${veterans.length}`);
+
+if (failures.length > 0) {
+    console.error(`\n${failures.length} failure(s):`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+}
+
+console.log('\nAll Global Sources fixture checks passed.');
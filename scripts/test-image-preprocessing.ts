@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { preprocessImage } from '../lib/platforms/image-preprocessing';
+import { classifySearchError, isRetryableSearchError } from '../lib/platforms/errors';
+
+// Check: fails (exit code 1) if uploads stop being normalized to the adapter's
+// format and size, including HEVC-coded HEIC photos that sharp cannot decode.
+// docs/sample-photo.heic is a 1024x512 grid HEIC (two 512px hvc1 tiles, the
+// layout phones write), encoded with x265.
+// Run with: npx tsx scripts/test-image-preprocessing.ts
+
+const failures: string[] = [];
+
+function expect(source: string, condition: boolean, message: string) {
+    if (!condition) failures.push(`${source}: ${message}`);
+}
+
+async function main() {
+    const heic = fs.readFileSync(path.resolve(__dirname, '../docs/sample-photo.heic'));
+
+    const full = await preprocessImage(new Blob([new Uint8Array(heic)]));
+    expect('sample-photo.heic', full.mimeType === 'image/jpeg', `mime type is ${full.mimeType}`);
+    expect('sample-photo.heic', full.width === 1024 && full.height === 512, `size is ${full.width}x${full.height}`);
+    const { format } = await sharp(Buffer.from(await full.blob.arrayBuffer())).metadata();
+    expect('sample-photo.heic', format === 'jpeg', `output decodes as ${format}`);
+
+    const cropped = await preprocessImage(
+        new Blob([new Uint8Array(heic)]),
+        { format: 'webp', maxDimension: 200, maxBytes: 64 * 1024, quality: 80 },
+        { x: 0.5, y: 0, width: 0.5, height: 1 }
+    );
+    expect('sample-photo.heic', cropped.mimeType === 'image/webp', `cropped mime type is ${cropped.mimeType}`);
+    expect('sample-photo.heic', cropped.width === 200 && cropped.height === 200, `cropped size is ${cropped.width}x${cropped.height}`);
+
+    const garbage = [
+        { name: 'text', bytes: Buffer.from('definitely not an image') },
+        { name: 'truncated HEIC', bytes: heic.subarray(0, 600) },
+    ];
+    for (const { name, bytes } of garbage) {
+        try {
+            await preprocessImage(new Blob([new Uint8Array(bytes)]));
+            failures.push(`${name}: was accepted`);
+        } catch (error) {
+            const taskError = classifySearchError(error);
+            expect(name, taskError.kind === 'parse', `failed with ${taskError.kind}, expected parse`);
+            expect(name, !isRetryableSearchError(taskError), 'failure is retryable');
+        }
+    }
+
+    console.log(`sample-photo.heic: ${heic.length} bytes -> ${full.bytes} byte JPEG`);
+
+    if (failures.length > 0) {
+        console.error(`\n${failures.length} failure(s):`);
+        failures.forEach(failure => console.error(`  - ${failure}`));
+        process.exit(1);
+    }
+
+    console.log('\nAll image preprocessing checks passed.');
+}
+
+main();
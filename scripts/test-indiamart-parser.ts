@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { parseIndiaMartSearch } from '../lib/platforms/indiamart/parser';
+import { mapIndiaMartToUnifiedProduct, PRICE_ON_REQUEST } from '../lib/platforms/indiamart/product-mapper';
+
+// Parses docs/indiamart-search.html and exits with code 1 if listings lose their
+// INR prices, seller locations or GST / verification badges, or if a page
+// without the listing container is mistaken for an empty result.
+// Run with: npx tsx scripts/test-indiamart-parser.ts
+
+const searchFixture = path.resolve(__dirname, '../docs/indiamart-search.html');
+
+const failures: string[] = [];
+
+function expect(condition: boolean, message: string) {
+    if (!condition) failures.push(`indiamart-search.html: ${message}`);
+}
+
+const { items, totalCount, listFound } = parseIndiaMartSearch(fs.readFileSync(searchFixture, 'utf-8'));
+const products = items.map(mapIndiaMartToUnifiedProduct);
+const [tote, jute, nonWoven] = products;
+
+expect(products.length === 3, `expected 3 products, got ${products.length}`);
+expect(totalCount === 1862, `totalCount is ${totalCount}`);
+expect(listFound, 'listing container not found');
+products.forEach(product => {
+    expect(product.platform === 'indiamart', `product ${product.id} has platform ${product.platform}`);
+    expect(product.image.startsWith('https://'), `image is ${product.image}`);
+    expect(product.productUrl.startsWith('https://'), `product url is ${product.productUrl}`);
+});
+
+if (tote) {
+    expect(tote.id === '22789012312', `id is ${tote.id}`);
+    expect(tote.currency === 'INR' && tote.priceRange?.min === 85, `price is ${tote.price}`);
+    expect(tote.moqQuantity?.quantity === 500 && tote.moqQuantity.unit === 'pieces', `MOQ is ${tote.moq}`);
+    expect(tote.supplier.id === '8834521', `supplier id is ${tote.supplier.id}`);
+    expect(tote.supplier.location === 'Tirupur, Tamil Nadu', `location is ${tote.supplier.location}`);
+    expect(tote.attributes['Material'] === 'Cotton Canvas', 'specs not parsed');
+    expect(tote.platformSpecific.gstNumber === '33AAKFS1234L1Z5', `GST number is ${tote.platformSpecific.gstNumber}`);
+    const badges = tote.supplier.badges ?? [];
+    ['GST Verified', 'TrustSEAL Verified', 'Verified Exporter', 'IndiaMART 12 yrs'].forEach(badge => {
+        expect(badges.includes(badge), `badge "${badge}" missing from ${badges.join(', ')}`);
+    });
+}
+
+if (jute) {
+    expect(jute.price === PRICE_ON_REQUEST, `price-on-request listing has price "${jute.price}"`);
+    expect(jute.priceRange === null && jute.currency === null, 'price-on-request listing has a parsed price');
+    expect(jute.platformSpecific.priceOnRequest === true, 'priceOnRequest flag not set');
+    expect(jute.id === '24455667788', `id is ${jute.id}`);
+    expect(jute.supplier.id === 'eco-jute-kolkata', `supplier id from url is ${jute.supplier.id}`);
+    expect(jute.supplier.location === 'Kolkata, West Bengal', `location is ${jute.supplier.location}`);
+    const badges = jute.supplier.badges ?? [];
+    expect(badges.includes('GST Verified') && badges.includes('Leading Supplier'), `badges are ${badges.join(', ')}`);
+}
+
+if (nonWoven) {
+    expect(nonWoven.currency === 'INR' && nonWoven.priceRange?.min === 2.5 && nonWoven.priceRange.max === 4, `"Rs" price is ${JSON.stringify(nonWoven.priceRange)}`);
+    expect(nonWoven.moq === null && nonWoven.moqQuantity === null, 'missing MOQ was invented');
+    expect(nonWoven.supplier.location === 'Surat', `location is ${nonWoven.supplier.location}`);
+    expect((nonWoven.supplier.badges ?? []).length === 0, 'unverified supplier has badges');
+}
+
+if (!parseIndiaMartSearch('<section class="listing"></section>').listFound) {
+    failures.push('an empty listing container was not recognised');
+}
+if (parseIndiaMartSearch('<div class="login-wall">Sign in to continue</div>').listFound) {
+    failures.push('a page without a listing container reported one');
+}
+
+console.log(`indiamart-search.html: ${products.length} products, e.g. "${tote?.title}" ${tote?.price} [${tote?.supplier.badges?.join(', ')}]`);
+
+if (failures.length > 0) {
+    console.error(`\n${failures.length} failure(s):`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exit(1);
+}
+
+console.log('\nAll IndiaMART fixture checks passed.');
@@ -0,0 +1,12 @@
+declare module 'heic-decode' {
+    interface DecodedImage {
+        width: number;
+        height: number;
+        /** RGBA pixels, row-major */
+        data: Uint8ClampedArray;
+    }
+
+    function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedImage>;
+
+    export default decode;
+}